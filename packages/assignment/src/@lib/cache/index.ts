@@ -0,0 +1,2 @@
+export * from "./lruCache";
+export * from "./memoize";
@@ -0,0 +1,83 @@
+import { Equals, shallowEquals } from "../equalities";
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // 용량을 넘어서 지운 항목 수
+  evictions: number;
+}
+
+export interface LruCacheOptions {
+  // 보관할 최대 항목 수 (기본값: 10)
+  size?: number;
+  // 키를 비교할 함수 (기본값: shallowEquals)
+  equals?: Equals;
+}
+
+export interface LruCache<K, V> {
+  // 값이 없는 경우와 undefined가 저장된 경우를 구분하기 위해 { value }로 감싸서 돌려준다.
+  get(key: K): { value: V } | undefined;
+  set(key: K, value: V): void;
+  clear(): void;
+  readonly size: number;
+  readonly stats: CacheStats;
+}
+
+interface Entry<K, V> {
+  key: K;
+  value: V;
+}
+
+// createLruCache 함수는 최근에 사용한 순서로 최대 size개의 항목을 보관하는 캐시를 만듭니다.
+//    - 키는 equals로 비교하므로 deps 배열이나 인자 목록도 키로 쓸 수 있다.
+//    - 용량을 넘으면 가장 오래 사용하지 않은 항목부터 지운다.
+//    - get 결과에 따라 stats의 hits, misses를 센다.
+export function createLruCache<K, V>({
+  size = 10,
+  equals = shallowEquals,
+}: LruCacheOptions = {}): LruCache<K, V> {
+  if (!(size >= 1)) {
+    throw new RangeError(`createLruCache: size must be at least 1, received ${size}`);
+  }
+
+  // 가장 최근에 사용한 항목이 맨 앞에 온다. 크기가 작으므로 배열을 순회해서 찾는다.
+  const entries: Entry<K, V>[] = [];
+  const stats: CacheStats = { hits: 0, misses: 0, evictions: 0 };
+
+  const find = (key: K) => entries.findIndex((entry) => equals(entry.key, key));
+
+  return {
+    get(key) {
+      const index = find(key);
+      if (index === -1) {
+        stats.misses++;
+        return undefined;
+      }
+      stats.hits++;
+      const [entry] = entries.splice(index, 1);
+      entries.unshift(entry);
+      return { value: entry.value };
+    },
+    set(key, value) {
+      const index = find(key);
+      if (index !== -1) {
+        entries.splice(index, 1);
+      }
+      entries.unshift({ key, value });
+      if (entries.length > size) {
+        stats.evictions += entries.length - size;
+        entries.length = size;
+      }
+    },
+    clear() {
+      entries.length = 0;
+      stats.hits = 0;
+      stats.misses = 0;
+      stats.evictions = 0;
+    },
+    get size() {
+      return entries.length;
+    },
+    stats,
+  };
+}
@@ -0,0 +1,37 @@
+import { CacheStats, LruCacheOptions, createLruCache } from "./lruCache";
+
+export interface MemoizeOptions<A extends unknown[]> extends LruCacheOptions {
+  // 인자 목록 대신 사용할 캐시 키를 만든다. (기본값: 인자 배열을 equals로 비교)
+  keyFn?: (...args: A) => unknown;
+}
+
+export interface Memoized<A extends unknown[], R> {
+  (...args: A): R;
+  readonly stats: CacheStats;
+  // 저장한 결과와 stats를 모두 지운다.
+  clear(): void;
+}
+
+// memoize 함수는 컴포넌트 밖에서 쓸 수 있도록, 최근 size개의 인자→결과를 LRU로 보관하는 함수를 만듭니다.
+export function memoize<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  { keyFn, ...options }: MemoizeOptions<A> = {}
+): Memoized<A, R> {
+  const cache = createLruCache<unknown, R>(options);
+
+  const memoized = (...args: A): R => {
+    const key = keyFn ? keyFn(...args) : args;
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached.value;
+    }
+    const value = fn(...args);
+    cache.set(key, value);
+    return value;
+  };
+
+  return Object.assign(memoized, {
+    stats: cache.stats,
+    clear: () => cache.clear(),
+  });
+}
@@ -0,0 +1,69 @@
+import { Context, ReactNode, createContext, createElement, useLayoutEffect } from "react";
+import { useRef } from "../hooks";
+
+// 컨텍스트 값 대신 Provider에 들어가는 구독 가능한 저장소
+export interface SelectableStore<T> {
+  getSnapshot(): T;
+  subscribe(listener: () => void): () => void;
+}
+
+interface WritableStore<T> extends SelectableStore<T> {
+  setValue(value: T): void;
+}
+
+export interface SelectableProviderProps<T> {
+  value: T;
+  children?: ReactNode;
+}
+
+export interface SelectableContext<T> {
+  Provider: (props: SelectableProviderProps<T>) => ReactNode;
+  // useContextSelector에서 사용하는 React 컨텍스트. 직접 사용하지 않는다.
+  Store: Context<SelectableStore<T>>;
+  displayName?: string;
+}
+
+function createSelectableStore<T>(initialValue: T): WritableStore<T> {
+  let value = initialValue;
+  const listeners = new Set<() => void>();
+
+  return {
+    getSnapshot: () => value,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setValue: (nextValue) => {
+      if (Object.is(value, nextValue)) {
+        return;
+      }
+      value = nextValue;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+// createSelectableContext 함수는 값이 바뀌어도 하위 컴포넌트 전체를 다시 렌더링하지 않는 컨텍스트를 만듭니다.
+// Provider는 값 대신 저장소를 내려주고, 값이 바뀌면 구독자에게만 알립니다.
+// 각 컴포넌트는 useContextSelector로 필요한 부분만 골라 구독하고, 고른 값이 바뀔 때만 다시 렌더링됩니다.
+export function createSelectableContext<T>(defaultValue: T): SelectableContext<T> {
+  const Store = createContext<SelectableStore<T>>(createSelectableStore(defaultValue));
+
+  const Provider = ({ value, children }: SelectableProviderProps<T>) => {
+    const store = useRef<WritableStore<T> | null>(null);
+    if (store.current === null) {
+      store.current = createSelectableStore(value);
+    }
+
+    // 렌더링 중에는 저장소를 바꾸지 않고, 커밋된 뒤에 구독자에게 알린다.
+    useLayoutEffect(() => {
+      store.current?.setValue(value);
+    }, [value, store]);
+
+    return createElement(Store.Provider, { value: store.current }, children);
+  };
+
+  return { Provider, Store };
+}
@@ -0,0 +1,2 @@
+export * from "./createSelectableContext";
+export * from "./useContextSelector";
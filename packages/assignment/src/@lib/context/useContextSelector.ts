@@ -0,0 +1,16 @@
+import { useContext } from "react";
+import { Equals, shallowEquals } from "../equalities";
+import { useSyncSelector } from "../hooks/useSyncSelector";
+import { SelectableContext } from "./createSelectableContext";
+
+// useContextSelector 훅은 컨텍스트 값에서 selector로 고른 값만 구독합니다.
+// equals(이전 결과, 다음 결과)가 true라면 이전 결과를 그대로 돌려주고 다시 렌더링하지 않습니다.
+// 객체를 골라도 동작하도록 기본값은 shallowEquals이며, 중첩된 값을 고른다면 deepEquals를 넘깁니다.
+export function useContextSelector<T, S>(
+  context: SelectableContext<T>,
+  selector: (value: T) => S,
+  equals: Equals = shallowEquals
+): S {
+  const store = useContext(context.Store);
+  return useSyncSelector(store.subscribe, store.getSnapshot, selector, equals);
+}
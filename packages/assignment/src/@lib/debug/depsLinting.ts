@@ -0,0 +1,262 @@
+import { DependencyList } from "react";
+import { getCurrentComponentName } from "./owner";
+import { TraceSource } from "./renderTracing";
+
+// deps 검사에서 찾는 문제
+//    - length-changed: 렌더링 사이에 deps 배열의 길이가 바뀌었다.
+//    - unstable-dep: 렌더링할 때마다 새로 만든 객체나 함수가 deps에 들어 있어서 메모이제이션이 동작하지 않는다.
+//    - missing-dep: factory가 deps에 없는 값을 읽었다. (proxy 옵션과 trackReads를 사용할 때만)
+export type DepsWarningKind = "length-changed" | "unstable-dep" | "missing-dep";
+
+export interface DepsWarning {
+  kind: DepsWarningKind;
+  source: TraceSource;
+  // 컴포넌트 이름 (알 수 없으면 Anonymous)
+  component: string;
+  // 훅을 호출한 위치 (스택에서 @lib 밖의 첫 번째 프레임)
+  callSite: string | undefined;
+  message: string;
+}
+
+export interface DepsWarningSink {
+  record(warning: DepsWarning): void;
+}
+
+export interface DepsLintingOptions {
+  // 경고를 받을 곳 (기본값: console.warn)
+  sink?: DepsWarningSink;
+  // 몇 번 연속으로 새 참조가 들어오면 unstable-dep으로 볼지 (기본값: 3)
+  unstableThreshold?: number;
+  // trackReads로 감싼 값을 factory가 읽을 때 deps에 있는지 확인한다. (기본값: false)
+  proxy?: boolean;
+}
+
+// 훅마다 보관하는 검사 상태
+export interface DepsLintState {
+  // deps 인덱스별로 연속해서 새 참조가 들어온 횟수
+  streaks: number[];
+  // 같은 경고를 반복해서 보내지 않기 위해 보낸 경고의 키를 기록한다.
+  reported: Set<string>;
+}
+
+interface Read {
+  path: string;
+  value: unknown;
+  // 이 값에 닿기까지 거친 객체들 (trackReads에 넘긴 값부터)
+  parents: object[];
+}
+
+let linting: Required<DepsLintingOptions> | null = null;
+
+// factory를 실행하는 동안 trackReads로 감싼 값에서 읽은 값들
+let reads: Read[] | null = null;
+
+const rawValues = new WeakMap<object, object>();
+const trackedValues = new WeakMap<object, Map<string, object>>();
+
+export function formatDepsWarning({ source, component, callSite, message }: DepsWarning): string {
+  return `[deps] ${source} in ${component}${callSite ? ` (${callSite})` : ""}: ${message}`;
+}
+
+const consoleSink: DepsWarningSink = {
+  record: (warning) => console.warn(formatDepsWarning(warning)),
+};
+
+// enableDepsLinting 함수는 @lib 훅의 deps 검사를 켜고, 끄는 함수를 돌려줍니다.
+// 개발 빌드에서만 동작하며, 프로덕션 빌드에서는 검사 코드가 모두 제거됩니다.
+export function enableDepsLinting({
+  sink = consoleSink,
+  unstableThreshold = 3,
+  proxy = false,
+}: DepsLintingOptions = {}): () => void {
+  const options = { sink, unstableThreshold, proxy };
+  linting = options;
+  return () => {
+    if (linting === options) {
+      linting = null;
+    }
+  };
+}
+
+export function disableDepsLinting() {
+  linting = null;
+}
+
+export function isDepsLintingEnabled(): boolean {
+  return linting !== null;
+}
+
+function isTrackable(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  // Date, Map 같은 내장 객체는 Proxy로 감싸면 메서드가 동작하지 않으므로 일반 객체와 배열만 감싼다.
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+function unwrap(value: unknown): unknown {
+  return (typeof value === "object" && value !== null && rawValues.get(value)) || value;
+}
+
+function track(raw: object, path: string, parents: object[]): object {
+  let byPath = trackedValues.get(raw);
+  const cached = byPath?.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const chain = [...parents, raw];
+  const tracked = new Proxy(raw, {
+    get(target, key, receiver) {
+      const value = Reflect.get(target, key, receiver);
+      // 배열 메서드처럼 상속받은 속성은 기록하지 않는다.
+      if (typeof key === "symbol" || !Object.prototype.hasOwnProperty.call(target, key)) {
+        return value;
+      }
+      const childPath = Array.isArray(target) ? `${path}[${key}]` : `${path}.${key}`;
+      reads?.push({ path: childPath, value, parents: chain });
+      // 고정된 속성(개발 모드의 props처럼 freeze된 객체)은 Proxy 규칙상 원래 값을 그대로 돌려줘야 한다.
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (descriptor && !descriptor.configurable && !descriptor.writable) {
+        return value;
+      }
+      return isTrackable(value) ? track(value, childPath, chain) : value;
+    },
+  });
+
+  if (!byPath) {
+    byPath = new Map();
+    trackedValues.set(raw, byPath);
+  }
+  byPath.set(path, tracked);
+  rawValues.set(tracked, raw);
+  return tracked;
+}
+
+// trackReads 함수는 proxy 옵션이 켜져 있을 때 value를 Proxy로 감싸서, 메모 훅의 factory가 읽는 값을 기록합니다.
+// 읽은 값(또는 그 값을 담은 객체)이 deps에 없다면 missing-dep 경고를 보냅니다.
+//    const { filter, items } = trackReads(props, "props");
+// proxy 옵션이 꺼져 있거나 프로덕션 빌드라면 value를 그대로 돌려줍니다.
+// useCallback은 factory가 아니라 나중에 호출될 때 값을 읽으므로 검사하지 않습니다.
+export function trackReads<T>(value: T, label = "value"): T {
+  if (!import.meta.env.DEV || !linting?.proxy || !isTrackable(value)) {
+    return value;
+  }
+  return track(value, label, []) as T;
+}
+
+// 스택에서 @lib 밖의 첫 번째 프레임을 훅을 호출한 위치로 본다.
+function getCallSite(): string | undefined {
+  const frames = new Error().stack?.split("\n").slice(1) ?? [];
+  const frame = frames.find((line) => !line.includes("/@lib/") && !line.includes("node_modules"));
+  return frame?.trim().replace(/^at /, "");
+}
+
+function report(state: DepsLintState, key: string, kind: DepsWarningKind, source: TraceSource, message: string) {
+  if (linting === null || state.reported.has(key)) {
+    return;
+  }
+  state.reported.add(key);
+  linting.sink.record({
+    kind,
+    source,
+    component: getCurrentComponentName() ?? "Anonymous",
+    callSite: getCallSite(),
+    message,
+  });
+}
+
+function isReference(value: unknown): boolean {
+  return typeof value === "function" || (typeof value === "object" && value !== null);
+}
+
+// lintDeps 함수는 렌더링할 때마다 deps를 검사하고, 다음 렌더링에 넘길 상태를 돌려줍니다.
+// changed는 훅의 equals가 deps를 다르다고 판단했는지 여부입니다.
+export function lintDeps(
+  source: TraceSource,
+  state: DepsLintState | undefined,
+  prevDeps: DependencyList | null,
+  nextDeps: DependencyList,
+  changed: boolean
+): DepsLintState {
+  const next = state ?? { streaks: [], reported: new Set() };
+  if (linting === null || prevDeps === null) {
+    return next;
+  }
+
+  if (prevDeps.length !== nextDeps.length) {
+    report(
+      next,
+      "length-changed",
+      "length-changed",
+      source,
+      `deps length changed from ${prevDeps.length} to ${nextDeps.length} between renders`
+    );
+  }
+
+  for (let i = 0; i < nextDeps.length; i++) {
+    const before = prevDeps[i];
+    const after = nextDeps[i];
+    // equals가 같다고 판단했다면 새 참조라도 문제가 없다.
+    const isNewReference = changed && isReference(after) && before !== after && typeof before === typeof after;
+    next.streaks[i] = isNewReference ? (next.streaks[i] ?? 0) + 1 : 0;
+
+    if (next.streaks[i] >= linting.unstableThreshold) {
+      const kind = typeof after === "function" ? "function" : "object";
+      report(
+        next,
+        `unstable-dep:${i}`,
+        "unstable-dep",
+        source,
+        `deps[${i}] is a new ${kind} on every render; move it out of the component or memoize it`
+      );
+    }
+  }
+
+  return next;
+}
+
+// runLintedFactory 함수는 proxy 옵션이 켜져 있다면 factory가 trackReads로 감싼 값에서 읽은 값을 모아 deps와 비교합니다.
+export function runLintedFactory<T>(
+  source: TraceSource,
+  state: DepsLintState,
+  factory: () => T,
+  deps: DependencyList
+): T {
+  if (linting === null || !linting.proxy) {
+    return factory();
+  }
+
+  const outer = reads;
+  const collected: Read[] = [];
+  reads = collected;
+  let value: T;
+  try {
+    value = factory();
+  } finally {
+    reads = outer;
+  }
+
+  const depValues = new Set(deps.map(unwrap));
+  // 다른 값을 읽는 데 거쳐간 객체는 검사하지 않고, 마지막으로 읽은 값만 검사한다.
+  const intermediates = new Set(collected.flatMap((read) => read.parents));
+
+  for (const read of collected) {
+    if (isReference(read.value) && intermediates.has(read.value as object)) {
+      continue;
+    }
+    const covered = depValues.has(read.value) || read.parents.some((parent) => depValues.has(parent));
+    if (!covered) {
+      report(
+        state,
+        `missing-dep:${read.path}`,
+        "missing-dep",
+        source,
+        `factory reads ${read.path} but it is not listed in deps`
+      );
+    }
+  }
+
+  return value;
+}
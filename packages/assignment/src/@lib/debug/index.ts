@@ -0,0 +1,29 @@
+export {
+  createBufferSink,
+  createConsoleSink,
+  disableRenderTracing,
+  enableRenderTracing,
+  formatRenderCause,
+  isRenderTracingEnabled,
+} from "./renderTracing";
+export {
+  disableDepsLinting,
+  enableDepsLinting,
+  formatDepsWarning,
+  isDepsLintingEnabled,
+  trackReads,
+} from "./depsLinting";
+export type {
+  BufferSink,
+  RenderCause,
+  RenderTracingOptions,
+  TraceChange,
+  TraceSink,
+  TraceSource,
+} from "./renderTracing";
+export type {
+  DepsLintingOptions,
+  DepsWarning,
+  DepsWarningKind,
+  DepsWarningSink,
+} from "./depsLinting";
@@ -0,0 +1,37 @@
+import React from "react";
+
+interface Fiber {
+  type: unknown;
+}
+
+interface ReactInternals {
+  ReactCurrentOwner?: { current: Fiber | null };
+}
+
+type ComponentLike = { displayName?: string; name?: string; render?: ComponentLike };
+
+function getCurrentOwner(): Fiber | null | undefined {
+  const internals = (React as unknown as Record<string, ReactInternals | undefined>)
+    .__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED;
+  return internals?.ReactCurrentOwner?.current;
+}
+
+// 지금 렌더링 중인 컴포넌트의 이름을 React 내부 값에서 읽어온다.
+// 개발 빌드에서만 값이 채워지므로, 알 수 없으면 undefined를 돌려준다.
+export function getCurrentComponentName(): string | undefined {
+  const type = getCurrentOwner()?.type as ComponentLike | string | undefined;
+
+  if (typeof type === "string") {
+    return type;
+  }
+  if (!type) {
+    return undefined;
+  }
+  return type.displayName || type.name || type.render?.displayName || type.render?.name || undefined;
+}
+
+// 지금 컴포넌트를 렌더링하는 중인지 확인한다. 개발 빌드에서만 알 수 있고, 그 외에는 false를 돌려준다.
+// 배포 빌드에서도 동작해야 하는 검사에는 사용하지 말고 개발 모드의 추가 검사로만 사용한다.
+export function isRendering(): boolean {
+  return Boolean(getCurrentOwner());
+}
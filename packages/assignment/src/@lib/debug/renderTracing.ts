@@ -0,0 +1,169 @@
+import { DeepEqualityOptions, Difference, deepDiff, formatDifference } from "../equalities";
+import { getCurrentComponentName } from "./owner";
+
+// 렌더링/재계산을 기록하는 곳
+//    - memo, deepMemo: 컴포넌트를 다시 렌더링할 때
+//    - useMemo, useCallback, useDeepMemo: factory를 다시 실행할 때
+export type TraceSource =
+  | "memo"
+  | "useMemo"
+  | "useCallback"
+  | "useDeepMemo"
+  | "useAsyncMemo"
+  | "useMemoCache";
+
+export interface TraceChange {
+  // 바뀐 prop 키 또는 deps 인덱스
+  key: string | number;
+  before: unknown;
+  after: unknown;
+  // before와 after의 구조 비교 결과. 비어 있다면 값은 같고 참조만 바뀐 것이다.
+  differences: Difference[];
+}
+
+export interface RenderCause {
+  source: TraceSource;
+  // 컴포넌트 이름 (알 수 없으면 Anonymous)
+  name: string;
+  reason: "mount" | "update";
+  changes: TraceChange[];
+  timestamp: number;
+}
+
+export interface TraceSink {
+  record(cause: RenderCause): void;
+}
+
+export interface BufferSink extends TraceSink {
+  readonly records: RenderCause[];
+  clear(): void;
+}
+
+export interface RenderTracingOptions {
+  // 기록을 받을 곳 (기본값: 콘솔)
+  sink?: TraceSink;
+  // before/after 비교에 사용할 deepDiff 옵션. 큰 값을 다룬다면 maxNodes로 비용을 제한한다.
+  diff?: DeepEqualityOptions;
+}
+
+let tracing: Required<RenderTracingOptions> | null = null;
+
+function joinPath(base: string, path: string): string {
+  if (!path) {
+    return base;
+  }
+  return path.startsWith("[") ? `${base}${path}` : `${base}.${path}`;
+}
+
+function formatKey(source: TraceSource, key: string | number): string {
+  return source === "memo" ? String(key) : `deps[${key}]`;
+}
+
+// formatRenderCause 함수는 기록 하나를 읽기 쉬운 여러 줄 문자열로 만듭니다.
+// 예:
+//   [memo] Memo(Header) update: style
+//     style: new reference, equal value
+export function formatRenderCause({ source, name, reason, changes }: RenderCause): string {
+  const keys = changes.map((change) => formatKey(source, change.key));
+  const lines = [`[${source}] ${name} ${reason}${keys.length > 0 ? `: ${keys.join(", ")}` : ""}`];
+
+  for (const change of changes) {
+    const key = formatKey(source, change.key);
+    if (change.differences.length === 0) {
+      lines.push(`  ${key}: new reference, equal value`);
+      continue;
+    }
+    for (const difference of change.differences) {
+      lines.push(`  ${formatDifference({ ...difference, path: joinPath(key, difference.path) })}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function createConsoleSink(log: (message: string) => void = console.log): TraceSink {
+  return {
+    record: (cause) => log(formatRenderCause(cause)),
+  };
+}
+
+// 테스트에서 기록을 확인할 때 사용하는 메모리 버퍼
+export function createBufferSink(): BufferSink {
+  const records: RenderCause[] = [];
+  return {
+    records,
+    record: (cause) => {
+      records.push(cause);
+    },
+    clear: () => {
+      records.length = 0;
+    },
+  };
+}
+
+// enableRenderTracing 함수는 렌더링 원인 기록을 켜고, 끄는 함수를 돌려줍니다.
+// 개발 빌드에서만 동작하며, 프로덕션 빌드에서는 기록 코드가 모두 제거됩니다.
+export function enableRenderTracing({
+  sink = createConsoleSink(),
+  diff = {},
+}: RenderTracingOptions = {}): () => void {
+  const options = { sink, diff };
+  tracing = options;
+  return () => {
+    if (tracing === options) {
+      tracing = null;
+    }
+  };
+}
+
+export function disableRenderTracing() {
+  tracing = null;
+}
+
+export function isRenderTracingEnabled(): boolean {
+  return tracing !== null;
+}
+
+function collectChanges(
+  prev: object,
+  next: object,
+  diff: DeepEqualityOptions
+): TraceChange[] {
+  const changes: TraceChange[] = [];
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const isList = Array.isArray(next);
+
+  for (const key of keys) {
+    const before = (prev as Record<string, unknown>)[key];
+    const after = (next as Record<string, unknown>)[key];
+    if (Object.is(before, after) && (key in prev) === (key in next)) {
+      continue;
+    }
+    changes.push({
+      key: isList ? Number(key) : key,
+      before,
+      after,
+      differences: deepDiff(before, after, diff),
+    });
+  }
+  return changes;
+}
+
+// traceRender 함수는 memo와 hooks에서 다시 렌더링(재계산)할 때 호출합니다.
+// 호출하는 쪽에서 import.meta.env.DEV와 isRenderTracingEnabled()로 먼저 확인해야 합니다.
+export function traceRender(
+  source: TraceSource,
+  name: string | undefined,
+  prev: object | null,
+  next: object
+) {
+  if (tracing === null) {
+    return;
+  }
+  tracing.sink.record({
+    source,
+    name: name ?? getCurrentComponentName() ?? "Anonymous",
+    reason: prev === null ? "mount" : "update",
+    changes: prev === null ? [] : collectChanges(prev, next, tracing.diff),
+    timestamp: Date.now(),
+  });
+}
@@ -0,0 +1,53 @@
+import { DeepEqualityOptions, createDeepEquals } from "./deepEquals";
+
+export interface BoundedEqualsStats {
+  // 비교 함수가 호출된 횟수
+  comparisons: number;
+  // 깊이나 노드 수 제한에 걸린 비교 횟수
+  exceeded: number;
+  depthExceeded: number;
+  nodesExceeded: number;
+}
+
+export interface BoundedEquals {
+  (objA: unknown, objB: unknown): boolean;
+  readonly stats: Readonly<BoundedEqualsStats>;
+  resetStats: () => void;
+}
+
+function createStats(): BoundedEqualsStats {
+  return { comparisons: 0, exceeded: 0, depthExceeded: 0, nodesExceeded: 0 };
+}
+
+// createBoundedEquals 함수는 깊이(maxDepth)와 노드 수(maxNodes)를 제한한 깊은 비교 함수를 만듭니다.
+// 제한에 걸린 횟수를 stats로 확인할 수 있어, 큰 목록에 deepMemo를 쓸 때 제한값을 조정하는 데 사용합니다.
+//   const equals = createBoundedEquals({ maxNodes: 1000 });
+//   const MemoizedList = memo(ItemList, equals);
+//   equals.stats.exceeded; // 제한에 걸린 횟수
+export function createBoundedEquals(options: DeepEqualityOptions): BoundedEquals {
+  let stats = createStats();
+
+  const compare = createDeepEquals({
+    ...options,
+    onLimitExceeded: (reasons) => {
+      stats.exceeded++;
+      if (reasons.includes("depth")) stats.depthExceeded++;
+      if (reasons.includes("nodes")) stats.nodesExceeded++;
+      options.onLimitExceeded?.(reasons);
+    },
+  });
+
+  const equals = (objA: unknown, objB: unknown) => {
+    stats.comparisons++;
+    return compare(objA, objB);
+  };
+
+  return Object.defineProperties(equals, {
+    stats: { get: () => stats },
+    resetStats: {
+      value: () => {
+        stats = createStats();
+      },
+    },
+  }) as BoundedEquals;
+}
@@ -0,0 +1,133 @@
+import { shallowEquals } from "./shallowEquals";
+import { createDeepEquals, deepEquals } from "./deepEquals";
+import { EqualityOptions } from "./strict";
+
+type Indexable = Record<PropertyKey, unknown>;
+
+// memo, useMemo, useDeepMemo의 equals 인자로 넘길 수 있는 비교 함수
+export type Equals = (objA: unknown, objB: unknown) => boolean;
+
+// 키별 비교 전략
+//    - ref: 참조(===) 비교
+//    - shallow: shallowEquals
+//    - deep: deepEquals
+//    - ignore: 항상 같다고 본다
+export type EqualsStrategy = "ref" | "shallow" | "deep" | "ignore" | Equals;
+
+export type EqualsSpec = Record<string, EqualsStrategy | undefined> & {
+  // 지정하지 않은 키에 사용할 전략 (기본값: ref)
+  default?: EqualsStrategy;
+};
+
+function refEquals(objA: unknown, objB: unknown): boolean {
+  return objA === objB;
+}
+
+function ignoreEquals(): boolean {
+  return true;
+}
+
+function toEquals(strategy: EqualsStrategy): Equals {
+  switch (strategy) {
+    case "ref":
+      return refEquals;
+    case "shallow":
+      return shallowEquals;
+    case "deep":
+      return deepEquals;
+    case "ignore":
+      return ignoreEquals;
+    default:
+      return strategy;
+  }
+}
+
+function isIndexable(value: unknown): value is Indexable {
+  return typeof value === "object" && value !== null;
+}
+
+function pick(value: Indexable, keys: Set<string>): Indexable {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => keys.has(key)));
+}
+
+function omit(value: Indexable, keys: Set<string>): Indexable {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.has(key)));
+}
+
+// createEquals 함수는 키마다 다른 전략으로 비교하는 함수를 만듭니다.
+// 예: createEquals({ items: 'ref', filters: 'deep', onChange: 'ignore', default: 'shallow' })
+export function createEquals(spec: EqualsSpec): Equals {
+  const { default: defaultStrategy = "ref", ...strategies } = spec;
+  const fallback = toEquals(defaultStrategy);
+  const comparators = new Map(
+    Object.entries(strategies)
+      .filter((entry): entry is [string, EqualsStrategy] => entry[1] !== undefined)
+      .map(([key, strategy]) => [key, toEquals(strategy)])
+  );
+
+  return (objA, objB) => {
+    if (objA === objB) {
+      return true;
+    }
+    if (!isIndexable(objA) || !isIndexable(objB)) {
+      return false;
+    }
+
+    const keys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+    for (const key of keys) {
+      const equals = comparators.get(key) ?? fallback;
+      if (equals === ignoreEquals) {
+        continue;
+      }
+      // 한쪽에만 있는 키는 ignore가 아니라면 다르다고 본다.
+      if (
+        !Object.prototype.hasOwnProperty.call(objA, key) ||
+        !Object.prototype.hasOwnProperty.call(objB, key)
+      ) {
+        return false;
+      }
+      if (!equals(objA[key], objB[key])) {
+        return false;
+      }
+    }
+    return true;
+  };
+}
+
+// and 함수는 모든 비교 함수가 같다고 판단할 때만 같다고 보는 비교 함수를 만듭니다.
+export function and(...comparators: EqualsStrategy[]): Equals {
+  const equalsList = comparators.map(toEquals);
+  return (objA, objB) => equalsList.every((equals) => equals(objA, objB));
+}
+
+// or 함수는 비교 함수 중 하나라도 같다고 판단하면 같다고 보는 비교 함수를 만듭니다.
+export function or(...comparators: EqualsStrategy[]): Equals {
+  const equalsList = comparators.map(toEquals);
+  return (objA, objB) => equalsList.some((equals) => equals(objA, objB));
+}
+
+// byKeys 함수는 지정한 키만 골라서 비교하는 함수를 만듭니다.
+export function byKeys(keys: string[], strategy: EqualsStrategy = "shallow"): Equals {
+  const keySet = new Set(keys);
+  const equals = toEquals(strategy);
+  return (objA, objB) =>
+    isIndexable(objA) && isIndexable(objB)
+      ? equals(pick(objA, keySet), pick(objB, keySet))
+      : equals(objA, objB);
+}
+
+// omitKeys 함수는 지정한 키를 제외하고 비교하는 함수를 만듭니다.
+export function omitKeys(keys: string[], strategy: EqualsStrategy = "shallow"): Equals {
+  const keySet = new Set(keys);
+  const equals = toEquals(strategy);
+  return (objA, objB) =>
+    isIndexable(objA) && isIndexable(objB)
+      ? equals(omit(objA, keySet), omit(objB, keySet))
+      : equals(objA, objB);
+}
+
+// withDepth 함수는 지정한 깊이까지만 깊은 비교를 하고, 그보다 깊은 값은 참조로 비교하는 함수를 만듭니다.
+// withDepth(0)은 참조 비교이고, withDepth(1)은 최상위 속성까지만 값으로 비교합니다.
+export function withDepth(depth: number, options: EqualityOptions = {}): Equals {
+  return createDeepEquals({ ...options, maxDepth: depth });
+}
@@ -0,0 +1,44 @@
+import { resolveStrictRules } from "./strict";
+import { DeepEqualityOptions } from "./deepEquals";
+import { Difference, createTraverseContext, formatValue, traverse } from "./traverse";
+
+export type { Difference, DifferenceType } from "./traverse";
+
+// deepDiff 함수는 두 값이 왜 다른지 경로별 변경 목록으로 알려줍니다.
+// deepEquals와 같은 순회 규칙을 사용하므로, 결과가 빈 배열일 때만 deepEquals가 true입니다.
+export function deepDiff(
+  objA: unknown,
+  objB: unknown,
+  options: DeepEqualityOptions = {}
+): Difference[] {
+  const differences: Difference[] = [];
+  const context = createTraverseContext(
+    resolveStrictRules(options.strict),
+    (difference) => {
+      differences.push(difference);
+      return false;
+    },
+    options
+  );
+  traverse(objA, objB, "", context);
+  if (context.budget.exceeded.size > 0) {
+    options.onLimitExceeded?.([...context.budget.exceeded]);
+  }
+  return differences;
+}
+
+// formatDifference 함수는 변경 하나를 읽기 쉬운 한 줄로 만듭니다.
+// 예: items[3].price: 1200 → 1500
+export function formatDifference({ type, path, before, after }: Difference): string {
+  const target = path || "(root)";
+  switch (type) {
+    case "added":
+      return `${target}: + ${formatValue(after)}`;
+    case "removed":
+      return `${target}: - ${formatValue(before)}`;
+    case "type-changed":
+      return `${target}: ${formatValue(before)} → ${formatValue(after)} (type changed)`;
+    default:
+      return `${target}: ${formatValue(before)} → ${formatValue(after)}`;
+  }
+}
@@ -1,45 +1,45 @@
-// deepEquals 함수는 두 값의 깊은 비교를 수행합니다.
-export function deepEquals(objA: any, objB: any): boolean {
-  // 1. 기본 타입이거나 null인 경우 처리
-  if (objA === objB) {
-    return true;
-  }
-
-  if (objA === null && objB === null) {
-    return true;
-  }
-
-  // 2. 둘 다 객체인 경우:
-  //    - 배열인지 확인
-  //    - 객체의 키 개수가 다른 경우 처리
-  //    - 재귀적으로 각 속성에 대해 deepEquals 호출
-
-  if (Array.isArray(objA) && Array.isArray(objB)) {
-    if (objA.length !== objB.length) {
-      return false;
-    }
-    for (let i = 0; i < objA.length; i++) {
-      if (!deepEquals(objA[i], objB[i])) {
-        return false;
-      }
-    }
+import { EqualityOptions, StrictRules, resolveStrictRules } from "./strict";
+import {
+  LimitReason,
+  TraverseLimits,
+  createTraverseContext,
+  traverse,
+} from "./traverse";
+
+export type { LimitReason } from "./traverse";
+
+export interface DeepEqualityOptions extends EqualityOptions, TraverseLimits {
+  // 비교 중 깊이나 노드 수 제한에 걸렸다면 비교가 끝난 뒤 한 번 호출된다.
+  onLimitExceeded?: (reasons: LimitReason[]) => void;
+}
 
-    return true;
+function compare(
+  objA: unknown,
+  objB: unknown,
+  rules: StrictRules,
+  options: DeepEqualityOptions = {}
+): boolean {
+  // 다른 점을 하나라도 발견하면 바로 순회를 멈춘다.
+  const context = createTraverseContext(rules, () => true, options);
+  const result = traverse(objA, objB, "", context);
+  if (context.budget.exceeded.size > 0) {
+    options.onLimitExceeded?.([...context.budget.exceeded]);
   }
+  return result;
+}
 
-  if (typeof objA === "object" && typeof objB === "object") {
-    if (Object.keys(objA).length !== Object.keys(objB).length) {
-      return false;
-    }
-
-    for (const key of Object.keys(objA)) {
-      if (!deepEquals(objA[key], objB[key])) {
-        return false;
-      }
-    }
-
-    return true;
-  }
+// deepEquals 함수는 두 값의 깊은 비교를 수행합니다.
+// 순환 참조가 있어도 같은 모양의 그래프라면 같다고 판단합니다.
+export function deepEquals(objA: unknown, objB: unknown): boolean {
+  return compare(objA, objB, resolveStrictRules(false));
+}
 
-  return false;
+// createDeepEquals 함수는 옵션이 적용된 깊은 비교 함수를 만듭니다.
+// maxDepth, maxNodes로 비교 범위를 제한할 수 있고, memo, useMemo의 equals 인자로 그대로 넘길 수 있습니다.
+export function createDeepEquals(options: DeepEqualityOptions = {}) {
+  const rules = resolveStrictRules(options.strict);
+  return (objA: unknown, objB: unknown): boolean => compare(objA, objB, rules, options);
 }
+
+// strictDeepEquals 함수는 모든 깊이에서 프로토타입, 심볼 키, 열거 불가능한 속성까지 확인하는 깊은 비교입니다.
+export const strictDeepEquals = createDeepEquals({ strict: true });
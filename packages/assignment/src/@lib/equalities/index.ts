@@ -1,2 +1,7 @@
 export * from "./shallowEquals";
 export * from "./deepEquals";
+export * from "./deepDiff";
+export * from "./createEquals";
+export * from "./boundedEquals";
+export * from "./structuralHash";
+export type { EqualityOptions, StrictOptions } from "./strict";
@@ -1,28 +1,59 @@
+import {
+  EqualityOptions,
+  StrictRules,
+  getOwnKeys,
+  getPrototypeGetterKeys,
+  hasSameShape,
+  resolveStrictRules,
+} from "./strict";
+
+type Indexable = Record<PropertyKey, unknown>;
+
 // 얕은 비교 Shallow Compare란?
 
 // 숫자, 문자열 등 원시 자료형은 값을 비교한다.
 // 배열, 객체 등 참조 자료형 값 혹은 속성을 비교하지 않고, 참조되는 위치를 비교한다.
 
-// shallowEquals 함수는 두 값의 얕은 비교를 수행합니다.
-export function shallowEquals(objA: any, objB: any): boolean {
+function compare(objA: unknown, objB: unknown, rules: StrictRules): boolean {
   // 1. 두 값이 정확히 같은지 확인 (참조가 같은 경우)
   if (objA === objB) {
     return true;
   }
 
   // 2. 둘 중 하나라도 객체가 아닌 경우 처리 (null도 객체가 아니므로 주의)
-  if (typeof objA !== "object" || typeof objB !== "object") {
+  if (
+    typeof objA !== "object" ||
+    typeof objB !== "object" ||
+    objA === null ||
+    objB === null
+  ) {
+    return false;
+  }
+
+  // 3. strict 모드라면 배열 여부와 프로토타입이 같은지 확인
+  if (!hasSameShape(objA, objB, rules)) {
     return false;
   }
 
-  if (Object.keys(objA).length !== Object.keys(objB).length) {
+  const keysA = getOwnKeys(objA, rules);
+  if (keysA.length !== getOwnKeys(objB, rules).length) {
     return false;
   }
 
   // 4. 모든 키에 대해 얕은 비교 수행
-  for (const key of Object.keys(objA)) {
+  for (const key of keysA) {
     // 각 키에 대한 값이 동일한지 확인
-    if (objA[key] !== objB[key]) {
+    if (
+      !Object.prototype.hasOwnProperty.call(objB, key) ||
+      (objA as Indexable)[key] !== (objB as Indexable)[key]
+    ) {
+      return false;
+    }
+  }
+
+  // 5. strict 모드에서 getter 비교를 켰다면 getter 결과도 얕게 비교
+  for (const key of getPrototypeGetterKeys(objA, rules)) {
+    if ((objA as Indexable)[key] !== (objB as Indexable)[key]) {
       return false;
     }
   }
@@ -30,3 +61,18 @@ export function shallowEquals(objA: any, objB: any): boolean {
   // 모든 키와 값이 동일하면 true
   return true;
 }
+
+// shallowEquals 함수는 두 값의 얕은 비교를 수행합니다.
+export function shallowEquals(objA: unknown, objB: unknown): boolean {
+  return compare(objA, objB, resolveStrictRules(false));
+}
+
+// createShallowEquals 함수는 옵션이 적용된 얕은 비교 함수를 만듭니다.
+// memo, useMemo의 equals 인자로 그대로 넘길 수 있습니다.
+export function createShallowEquals(options: EqualityOptions = {}) {
+  const rules = resolveStrictRules(options.strict);
+  return (objA: unknown, objB: unknown): boolean => compare(objA, objB, rules);
+}
+
+// strictShallowEquals 함수는 프로토타입, 심볼 키, 열거 불가능한 속성까지 확인하는 얕은 비교입니다.
+export const strictShallowEquals = createShallowEquals({ strict: true });
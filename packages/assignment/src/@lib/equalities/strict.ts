@@ -0,0 +1,90 @@
+// strict 모드에서 추가로 확인할 항목들
+export interface StrictOptions {
+  // 생성자(프로토타입)가 같아야 같은 값으로 본다. 배열과 객체도 구분한다.
+  prototype?: boolean;
+  // 심볼 키 속성도 비교한다.
+  symbols?: boolean;
+  // 열거 불가능한 자체 속성도 비교한다.
+  nonEnumerable?: boolean;
+  // 프로토타입에 정의된 getter의 결과도 비교한다.
+  getters?: boolean;
+}
+
+export interface EqualityOptions {
+  // true면 모든 항목을 확인하고, 객체로 넘기면 항목별로 켜고 끌 수 있다.
+  strict?: boolean | StrictOptions;
+}
+
+export type StrictRules = Required<StrictOptions>;
+
+const LOOSE_RULES: StrictRules = {
+  prototype: false,
+  symbols: false,
+  nonEnumerable: false,
+  getters: false,
+};
+
+const STRICT_RULES: StrictRules = {
+  prototype: true,
+  symbols: true,
+  nonEnumerable: true,
+  getters: false,
+};
+
+export function resolveStrictRules(strict: EqualityOptions["strict"]): StrictRules {
+  if (!strict) {
+    return LOOSE_RULES;
+  }
+  if (strict === true) {
+    return STRICT_RULES;
+  }
+  return { ...STRICT_RULES, ...strict };
+}
+
+// 두 객체의 모양(배열 여부, 프로토타입)이 같은지 확인한다.
+export function hasSameShape(objA: object, objB: object, rules: StrictRules): boolean {
+  if (!rules.prototype) {
+    return true;
+  }
+  return (
+    Array.isArray(objA) === Array.isArray(objB) &&
+    Object.getPrototypeOf(objA) === Object.getPrototypeOf(objB)
+  );
+}
+
+// 규칙에 따라 비교할 자체 속성 키 목록을 만든다.
+export function getOwnKeys(obj: object, rules: StrictRules): PropertyKey[] {
+  const names: PropertyKey[] = rules.nonEnumerable
+    ? Object.getOwnPropertyNames(obj)
+    : Object.keys(obj);
+
+  if (!rules.symbols) {
+    return names;
+  }
+
+  const symbols = Object.getOwnPropertySymbols(obj).filter(
+    (symbol) =>
+      rules.nonEnumerable || Object.prototype.propertyIsEnumerable.call(obj, symbol)
+  );
+  return [...names, ...symbols];
+}
+
+// 프로토타입 체인(Object.prototype 제외)에 정의된 getter 이름을 모은다.
+export function getPrototypeGetterKeys(obj: object, rules: StrictRules): PropertyKey[] {
+  if (!rules.getters) {
+    return [];
+  }
+
+  const keys = new Set<PropertyKey>();
+  let proto = Object.getPrototypeOf(obj);
+  while (proto !== null && proto !== Object.prototype) {
+    for (const key of Reflect.ownKeys(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+      if (descriptor?.get && !Object.prototype.hasOwnProperty.call(obj, key)) {
+        keys.add(key);
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return [...keys];
+}
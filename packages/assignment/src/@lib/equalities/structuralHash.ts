@@ -0,0 +1,230 @@
+import { deepEquals } from "./deepEquals";
+import type { Equals } from "./createEquals";
+import { getKind, getTag } from "./traverse";
+
+type Indexable = Record<PropertyKey, unknown>;
+
+// structuralHash는 deepEquals와 같은 규칙을 따르는 해시를 만듭니다.
+//    - deepEquals가 같다고 보는 두 값은 항상 같은 해시를 가진다.
+//    - 해시가 다르면 deepEquals도 반드시 false다. (반대로 해시가 같다고 값이 같지는 않다)
+// 그래서 해시가 다른 경우 전체 비교를 건너뛸 수 있습니다.
+
+interface HashState {
+  // 지금 해시를 계산 중인 객체들 (순환 참조 확인용)
+  stack: object[];
+  // 순환 참조를 만난 횟수. 하위 구조에 순환이 없을 때만 캐시한다.
+  backReferences: number;
+  cache?: WeakMap<object, number>;
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const TAGS = {
+  undefined: 1,
+  null: 2,
+  boolean: 3,
+  number: 4,
+  bigint: 5,
+  string: 6,
+  symbol: 7,
+  function: 8,
+  cycle: 9,
+  date: 10,
+  regexp: 11,
+  boxed: 12,
+  bytes: 13,
+  map: 14,
+  set: 15,
+  // 배열과 일반 객체는 deepEquals에서 서로 키로 비교될 수 있으므로 같은 태그를 쓴다.
+  keyed: 16,
+} as const;
+
+// 함수는 참조로 비교하므로 함수마다 번호를 붙여 해시한다.
+const functionIds = new WeakMap<object, number>();
+let nextFunctionId = 1;
+
+// immutable 옵션에서 사용하는 공용 캐시. 값이 바뀌지 않는 객체에만 사용해야 한다.
+const immutableCache = new WeakMap<object, number>();
+
+function mix(hash: number, value: number): number {
+  return Math.imul(hash ^ value, FNV_PRIME) >>> 0;
+}
+
+function hashString(value: string): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < value.length; i++) {
+    hash = mix(hash, value.charCodeAt(i));
+  }
+  return hash;
+}
+
+// NaN끼리, 0과 -0을 같게 본다. (String(-0) === "0")
+function hashNumber(value: number): number {
+  return hashString(String(value));
+}
+
+// 배열 인덱스의 키 해시. 같은 키의 객체와 같은 해시가 나오도록 문자열로 해시하고, 자주 쓰이므로 저장해 둔다.
+const indexHashes: number[] = [];
+
+function hashIndex(index: number): number {
+  for (let i = indexHashes.length; i <= index; i++) {
+    indexHashes.push(hashString(String(i)));
+  }
+  return indexHashes[index];
+}
+
+function hashBytes(bytes: Uint8Array): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < bytes.length; i++) {
+    hash = mix(hash, bytes[i]);
+  }
+  return mix(hash, bytes.length);
+}
+
+function hashObject(value: object, state: HashState): number {
+  const kind = getKind(value);
+
+  switch (kind) {
+    case "date":
+      return mix(TAGS.date, hashNumber((value as Date).getTime()));
+    case "regexp":
+      return mix(
+        TAGS.regexp,
+        hashString(`${(value as RegExp).source}/${(value as RegExp).flags}`)
+      );
+    case "boxed":
+      return mix(mix(TAGS.boxed, hashString(getTag(value))), hashValue(value.valueOf(), state));
+    case "arraybuffer":
+      return mix(TAGS.bytes, hashBytes(new Uint8Array(value as ArrayBuffer)));
+    case "view": {
+      const view = value as ArrayBufferView;
+      const tagHash = mix(TAGS.bytes, hashString(getTag(view)));
+      if (view instanceof DataView) {
+        return mix(tagHash, hashBytes(new Uint8Array(view.buffer, view.byteOffset, view.byteLength)));
+      }
+      // TypedArray는 요소 단위로 비교하므로 요소 값으로 해시한다.
+      const elements = view as unknown as ArrayLike<number | bigint>;
+      let hash = tagHash;
+      for (let i = 0; i < elements.length; i++) {
+        hash = mix(hash, hashValue(elements[i], state));
+      }
+      return hash;
+    }
+    case "map": {
+      // 순서와 관계없이 같은 해시가 나오도록 항목 해시를 더한다.
+      let sum = 0;
+      for (const [key, entry] of value as Map<unknown, unknown>) {
+        sum = (sum + mix(hashValue(key, state), hashValue(entry, state))) >>> 0;
+      }
+      return mix(mix(TAGS.map, (value as Map<unknown, unknown>).size), sum);
+    }
+    case "set": {
+      let sum = 0;
+      for (const member of value as Set<unknown>) {
+        sum = (sum + hashValue(member, state)) >>> 0;
+      }
+      return mix(mix(TAGS.set, (value as Set<unknown>).size), sum);
+    }
+    default: {
+      // 배열은 인덱스, 객체는 열거 가능한 키 기준. 키 순서와 관계없도록 항목 해시를 더한다.
+      let sum = 0;
+      if (Array.isArray(value)) {
+        for (let i = 0; i < value.length; i++) {
+          sum = (sum + mix(hashIndex(i), hashValue(value[i], state))) >>> 0;
+        }
+        return mix(mix(TAGS.keyed, value.length), sum);
+      }
+
+      const keys = Object.keys(value);
+      for (const key of keys) {
+        sum = (sum + mix(hashString(key), hashValue((value as Indexable)[key], state))) >>> 0;
+      }
+      return mix(mix(TAGS.keyed, keys.length), sum);
+    }
+  }
+}
+
+function hashValue(value: unknown, state: HashState): number {
+  switch (typeof value) {
+    case "undefined":
+      return TAGS.undefined;
+    case "boolean":
+      return mix(TAGS.boolean, value ? 1 : 0);
+    case "number":
+      return mix(TAGS.number, hashNumber(value));
+    case "bigint":
+      return mix(TAGS.bigint, hashString(value.toString()));
+    case "string":
+      return mix(TAGS.string, hashString(value));
+    case "symbol":
+      return mix(TAGS.symbol, hashString(String(value)));
+    case "function": {
+      let id = functionIds.get(value);
+      if (id === undefined) {
+        id = nextFunctionId++;
+        functionIds.set(value, id);
+      }
+      return mix(TAGS.function, id);
+    }
+  }
+
+  if (value === null) {
+    return TAGS.null;
+  }
+
+  const object = value as object;
+  const cached = state.cache?.get(object);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // 순환 참조는 몇 단계 위의 객체로 돌아가는지로 해시한다.
+  // 같은 모양의 순환이면 같은 해시가 나온다.
+  const index = state.stack.lastIndexOf(object);
+  if (index !== -1) {
+    state.backReferences++;
+    return mix(TAGS.cycle, state.stack.length - index);
+  }
+
+  const backReferences = state.backReferences;
+  state.stack.push(object);
+  const hash = hashObject(object, state);
+  state.stack.pop();
+
+  if (state.cache && state.backReferences === backReferences) {
+    state.cache.set(object, hash);
+  }
+  return hash;
+}
+
+// structuralHash 함수는 deepEquals의 규칙을 따르는 32비트 해시를 만듭니다.
+// cache를 넘기면 객체별 해시를 저장해 재사용합니다. (값이 바뀌지 않는 객체에만 사용하세요)
+export function structuralHash(value: unknown, cache?: WeakMap<object, number>): number {
+  return hashValue(value, { stack: [], backReferences: 0, cache });
+}
+
+export interface HashedEqualsOptions {
+  // 입력 객체가 바뀌지 않는다면 true로 두어 해시를 WeakMap에 캐시한다.
+  immutable?: boolean;
+  // 해시가 같을 때 사용할 비교 함수 (기본값: deepEquals)
+  equals?: Equals;
+}
+
+// createHashedEquals 함수는 해시가 다르면 바로 false를 돌려주고,
+// 해시가 같을 때만 equals로 전체 비교를 하는 비교 함수를 만듭니다.
+export function createHashedEquals({
+  immutable = false,
+  equals = deepEquals,
+}: HashedEqualsOptions = {}): Equals {
+  const cache = immutable ? immutableCache : undefined;
+  return (objA, objB) => {
+    if (objA === objB) {
+      return true;
+    }
+    if (structuralHash(objA, cache) !== structuralHash(objB, cache)) {
+      return false;
+    }
+    return equals(objA, objB);
+  };
+}
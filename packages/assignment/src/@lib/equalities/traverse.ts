@@ -0,0 +1,570 @@
+import {
+  StrictRules,
+  getOwnKeys,
+  getPrototypeGetterKeys,
+  hasSameShape,
+} from "./strict";
+
+// deepEquals와 deepDiff가 함께 사용하는 깊은 순회 로직입니다.
+// 두 함수가 같은 규칙으로 값을 비교하도록, 다른 점을 발견하면 report로 알리고
+// report가 true를 돌려주면 순회를 멈춥니다.
+
+type Indexable = Record<PropertyKey, unknown>;
+
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+export type DifferenceType = "added" | "removed" | "changed" | "type-changed";
+
+export interface Difference {
+  type: DifferenceType;
+  // 예: items[3].price
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// 비교 중인 객체 쌍을 양방향으로 기록한다.
+// 순환 참조를 다시 만났을 때 같은 위치의 짝끼리 돌아왔는지로 모양이 같은지 판단한다.
+interface Visited {
+  a: Map<object, object>;
+  b: Map<object, object>;
+}
+
+// 깊이나 방문 노드 수 제한에 걸린 이유
+export type LimitReason = "depth" | "nodes";
+
+export interface TraverseLimits {
+  // 이 깊이에 도달한 객체는 더 내려가지 않는다. (최상위 값의 속성이 깊이 1)
+  maxDepth?: number;
+  // 비교할 수 있는 객체 쌍의 최대 개수
+  maxNodes?: number;
+  // 제한에 걸렸을 때의 처리
+  //    - reference: 남은 값들은 참조로 비교한다. (기본값)
+  //    - unequal: 순회를 멈추고 다르다고 판단한다.
+  onLimit?: "reference" | "unequal";
+}
+
+// 한 번의 비교 동안 공유되는 예산 상태
+interface Budget extends Required<TraverseLimits> {
+  nodes: number;
+  exceeded: Set<LimitReason>;
+  aborted: boolean;
+}
+
+export interface TraverseContext {
+  visited: Visited;
+  rules: StrictRules;
+  report: (difference: Difference) => boolean;
+  stopped: boolean;
+  // 현재 비교 중인 객체의 깊이
+  depth: number;
+  budget: Budget;
+}
+
+export type Kind =
+  | "date"
+  | "regexp"
+  | "boxed"
+  | "arraybuffer"
+  | "view"
+  | "map"
+  | "set"
+  | "array"
+  | "object";
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const INDEX = /^(0|[1-9]\d*)$/;
+
+// 원시 값 비교: ===와 같지만 NaN끼리는 같은 값으로 본다.
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || (Number.isNaN(a) && Number.isNaN(b));
+}
+
+export function isObject(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+export function getTag(value: object): string {
+  return Object.prototype.toString.call(value);
+}
+
+export function getKind(value: object): Kind {
+  if (value instanceof Date) return "date";
+  if (value instanceof RegExp) return "regexp";
+  if (
+    value instanceof Number ||
+    value instanceof String ||
+    value instanceof Boolean ||
+    value instanceof BigInt ||
+    value instanceof Symbol
+  ) {
+    return "boxed";
+  }
+  if (value instanceof ArrayBuffer) return "arraybuffer";
+  if (ArrayBuffer.isView(value)) return "view";
+  if (value instanceof Map) return "map";
+  if (value instanceof Set) return "set";
+  if (Array.isArray(value)) return "array";
+  return "object";
+}
+
+// 값의 종류 이름. 종류가 다르면 type-changed로 보고한다.
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (!isObject(value)) return typeof value;
+  const kind = getKind(value);
+  return kind === "view" || kind === "boxed" ? getTag(value).slice(8, -1) : kind;
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function bytesEquals(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function typedArrayEquals(a: TypedArray, b: TypedArray): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (!isSameValue(a[i], b[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// 내부 구조를 따라 내려가지 않고 한 번에 비교하는 값들
+//    - Date: 시간 값
+//    - RegExp: source와 flags
+//    - 박싱된 원시 값: valueOf()
+//    - ArrayBuffer / DataView: 바이트 단위
+//    - TypedArray: 요소 단위
+function leafEquals(kind: Kind, objA: object, objB: object): boolean {
+  switch (kind) {
+    case "date":
+      return isSameValue((objA as Date).getTime(), (objB as Date).getTime());
+    case "regexp":
+      return (
+        (objA as RegExp).source === (objB as RegExp).source &&
+        (objA as RegExp).flags === (objB as RegExp).flags
+      );
+    case "boxed":
+      return isSameValue(objA.valueOf(), objB.valueOf());
+    case "arraybuffer":
+      return bytesEquals(toBytes(objA as ArrayBuffer), toBytes(objB as ArrayBuffer));
+    case "view":
+      return objA instanceof DataView
+        ? bytesEquals(toBytes(objA), toBytes(objB as DataView))
+        : typedArrayEquals(objA as TypedArray, objB as TypedArray);
+    default:
+      return true;
+  }
+}
+
+export function formatValue(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "function") return `ƒ ${value.name || "anonymous"}()`;
+  if (!isObject(value)) return String(value);
+
+  switch (getKind(value)) {
+    case "date":
+      return isNaN((value as Date).getTime())
+        ? "Invalid Date"
+        : (value as Date).toISOString();
+    case "regexp":
+      return String(value);
+    case "boxed":
+      return formatValue(value.valueOf());
+    case "map":
+      return `Map(${(value as Map<unknown, unknown>).size})`;
+    case "set":
+      return `Set(${(value as Set<unknown>).size})`;
+    case "array":
+      return `Array(${(value as unknown[]).length})`;
+    case "arraybuffer":
+    case "view":
+      return getTag(value).slice(8, -1);
+    default:
+      return "{…}";
+  }
+}
+
+function joinKey(path: string, key: PropertyKey, owner: object): string {
+  if (Array.isArray(owner) && typeof key === "string" && INDEX.test(key)) {
+    return joinIndex(path, Number(key));
+  }
+  if (typeof key === "string" && IDENTIFIER.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${typeof key === "symbol" ? String(key) : JSON.stringify(key)}]`;
+}
+
+function joinIndex(path: string, index: number): string {
+  return `${path}[${index}]`;
+}
+
+function joinMapKey(path: string, key: unknown): string {
+  return `${path}[${formatValue(key)}]`;
+}
+
+function shouldStop(context: TraverseContext): boolean {
+  return context.stopped || context.budget.aborted;
+}
+
+function report(context: TraverseContext, difference: Difference): false {
+  if (context.report(difference)) {
+    context.stopped = true;
+  }
+  return false;
+}
+
+// Map / Set에서 객체 키나 멤버의 짝을 찾을 때는 보고 없이 같은지만 확인한다.
+function isMatch(a: unknown, b: unknown, context: TraverseContext): boolean {
+  return traverse(a, b, "", {
+    ...context,
+    report: () => true,
+    stopped: false,
+  });
+}
+
+// Map은 키와 값을 모두 비교한다.
+// 원시 키는 has/get으로 바로 찾고, 객체 키는 아직 짝이 없는 키들 중 깊게 같은 것을 찾는다.
+function traverseMap(
+  a: Map<unknown, unknown>,
+  b: Map<unknown, unknown>,
+  path: string,
+  context: TraverseContext
+): boolean {
+  let equal = true;
+  const pending: [unknown, unknown][] = [];
+
+  for (const [key, value] of a) {
+    if (b.has(key)) {
+      if (!traverse(value, b.get(key), joinMapKey(path, key), context)) {
+        equal = false;
+      }
+    } else if (isObject(key)) {
+      pending.push([key, value]);
+    } else {
+      equal = report(context, { type: "removed", path: joinMapKey(path, key), before: value });
+    }
+    if (shouldStop(context)) return false;
+  }
+
+  const candidates: [unknown, unknown][] = [];
+  for (const [key, value] of b) {
+    if (a.has(key)) continue;
+    if (isObject(key)) {
+      candidates.push([key, value]);
+    } else {
+      equal = report(context, { type: "added", path: joinMapKey(path, key), after: value });
+      if (shouldStop(context)) return false;
+    }
+  }
+
+  for (const [key, value] of pending) {
+    const index = candidates.findIndex(
+      ([candidateKey, candidateValue]) =>
+        isMatch(key, candidateKey, context) && isMatch(value, candidateValue, context)
+    );
+    if (index === -1) {
+      equal = report(context, { type: "removed", path: joinMapKey(path, key), before: value });
+      if (shouldStop(context)) return false;
+    } else {
+      candidates.splice(index, 1);
+    }
+  }
+
+  for (const [key, value] of candidates) {
+    equal = report(context, { type: "added", path: joinMapKey(path, key), after: value });
+    if (shouldStop(context)) return false;
+  }
+
+  return equal;
+}
+
+// Set은 멤버십을 비교한다. 객체 멤버는 짝이 없는 멤버들 중 깊게 같은 것을 찾는다.
+function traverseSet(
+  a: Set<unknown>,
+  b: Set<unknown>,
+  path: string,
+  context: TraverseContext
+): boolean {
+  let equal = true;
+  const pending: unknown[] = [];
+
+  for (const member of a) {
+    if (b.has(member)) continue;
+    if (isObject(member)) {
+      pending.push(member);
+    } else {
+      equal = report(context, { type: "removed", path, before: member });
+      if (shouldStop(context)) return false;
+    }
+  }
+
+  const candidates: unknown[] = [];
+  for (const member of b) {
+    if (a.has(member)) continue;
+    if (isObject(member)) {
+      candidates.push(member);
+    } else {
+      equal = report(context, { type: "added", path, after: member });
+      if (shouldStop(context)) return false;
+    }
+  }
+
+  for (const member of pending) {
+    const index = candidates.findIndex((candidate) => isMatch(member, candidate, context));
+    if (index === -1) {
+      equal = report(context, { type: "removed", path, before: member });
+      if (shouldStop(context)) return false;
+    } else {
+      candidates.splice(index, 1);
+    }
+  }
+
+  for (const member of candidates) {
+    equal = report(context, { type: "added", path, after: member });
+    if (shouldStop(context)) return false;
+  }
+
+  return equal;
+}
+
+function traverseArray(
+  a: unknown[],
+  b: unknown[],
+  path: string,
+  context: TraverseContext
+): boolean {
+  let equal = true;
+  const length = Math.max(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    if (i >= b.length) {
+      equal = report(context, { type: "removed", path: joinIndex(path, i), before: a[i] });
+    } else if (i >= a.length) {
+      equal = report(context, { type: "added", path: joinIndex(path, i), after: b[i] });
+    } else if (!traverse(a[i], b[i], joinIndex(path, i), context)) {
+      equal = false;
+    }
+    if (shouldStop(context)) return false;
+  }
+
+  return equal;
+}
+
+function traverseKeys(
+  objA: object,
+  objB: object,
+  path: string,
+  context: TraverseContext
+): boolean {
+  const { rules } = context;
+  let equal = true;
+  const keysB = new Set(getOwnKeys(objB, rules));
+
+  for (const key of getOwnKeys(objA, rules)) {
+    if (keysB.has(key)) {
+      keysB.delete(key);
+      if (!traverse((objA as Indexable)[key], (objB as Indexable)[key], joinKey(path, key, objA), context)) {
+        equal = false;
+      }
+    } else {
+      equal = report(context, {
+        type: "removed",
+        path: joinKey(path, key, objA),
+        before: (objA as Indexable)[key],
+      });
+    }
+    if (shouldStop(context)) return false;
+  }
+
+  for (const key of keysB) {
+    equal = report(context, {
+      type: "added",
+      path: joinKey(path, key, objA),
+      after: (objB as Indexable)[key],
+    });
+    if (shouldStop(context)) return false;
+  }
+
+  // strict 모드에서 getter 비교를 켰다면 getter 결과도 비교
+  for (const key of getPrototypeGetterKeys(objA, rules)) {
+    if (!traverse((objA as Indexable)[key], (objB as Indexable)[key], joinKey(path, key, objA), context)) {
+      equal = false;
+    }
+    if (shouldStop(context)) return false;
+  }
+
+  return equal;
+}
+
+function traverseObjects(
+  objA: object,
+  objB: object,
+  path: string,
+  context: TraverseContext
+): boolean {
+  const { rules } = context;
+  const typeChanged = { type: "type-changed", path, before: objA, after: objB } as const;
+
+  // 1. strict 모드라면 배열 여부와 프로토타입이 같은지 확인
+  if (!hasSameShape(objA, objB, rules)) {
+    return report(context, typeChanged);
+  }
+
+  // 2. 내장 객체는 종류(TypedArray라면 세부 타입까지)가 같아야 한다.
+  //    배열과 일반 객체는 strict 모드가 아니면 서로 키로 비교할 수 있다.
+  const kindA = getKind(objA);
+  const kindB = getKind(objB);
+  const keyed = (kind: Kind) => kind === "array" || kind === "object";
+  if (kindA !== kindB && !(keyed(kindA) && keyed(kindB))) {
+    return report(context, typeChanged);
+  }
+  if ((kindA === "view" || kindA === "boxed") && getTag(objA) !== getTag(objB)) {
+    return report(context, typeChanged);
+  }
+
+  // 3. 종류별 규칙으로 비교
+  switch (kindA) {
+    case "date":
+    case "regexp":
+    case "boxed":
+    case "arraybuffer":
+    case "view":
+      return (
+        leafEquals(kindA, objA, objB) ||
+        report(context, { type: "changed", path, before: objA, after: objB })
+      );
+    case "map":
+      return traverseMap(objA as Map<unknown, unknown>, objB as Map<unknown, unknown>, path, context);
+    case "set":
+      return traverseSet(objA as Set<unknown>, objB as Set<unknown>, path, context);
+  }
+
+  // 4. 배열과 일반 객체인 경우:
+  //    - 배열끼리는 인덱스 단위로 비교
+  //    - 그 외에는 키 단위로 비교
+  //    - strict 모드라면 심볼 키, 열거 불가능한 속성, getter 결과까지 비교
+  if (
+    kindA === "array" &&
+    kindB === "array" &&
+    !rules.symbols &&
+    !rules.nonEnumerable
+  ) {
+    return traverseArray(objA as unknown[], objB as unknown[], path, context);
+  }
+
+  return traverseKeys(objA, objB, path, context);
+}
+
+// 두 값을 깊게 순회하며 비교합니다. 다른 점이 하나라도 있으면 false를 돌려줍니다.
+export function traverse(
+  objA: unknown,
+  objB: unknown,
+  path: string,
+  context: TraverseContext
+): boolean {
+  // 1. 기본 타입이거나 null인 경우 처리 (NaN끼리는 같다고 본다)
+  if (isSameValue(objA, objB)) {
+    return true;
+  }
+
+  if (!isObject(objA) || !isObject(objB)) {
+    return report(context, {
+      type: describeType(objA) === describeType(objB) ? "changed" : "type-changed",
+      path,
+      before: objA,
+      after: objB,
+    });
+  }
+
+  // 2. 이미 비교 중인 객체를 다시 만난 경우 (순환 참조)
+  //    - 양쪽 모두 같은 짝으로 돌아왔다면 같은 모양의 순환이다.
+  //    - 한쪽만 순환하거나 다른 짝으로 돌아왔다면 모양이 다르다.
+  const { visited } = context;
+  const seenB = visited.a.get(objA);
+  const seenA = visited.b.get(objB);
+  if (seenB !== undefined || seenA !== undefined) {
+    return (
+      (seenB === objB && seenA === objA) ||
+      report(context, { type: "changed", path, before: objA, after: objB })
+    );
+  }
+
+  // 3. 깊이나 노드 수 제한에 도달했다면 더 내려가지 않는다.
+  //    - reference: 참조 비교로 대신한다. (이미 참조가 다르다)
+  //    - unequal: 전체 비교를 다르다고 끝낸다.
+  const { budget } = context;
+  const reason: LimitReason | null =
+    context.depth >= budget.maxDepth ? "depth" : budget.nodes >= budget.maxNodes ? "nodes" : null;
+  if (reason !== null) {
+    budget.exceeded.add(reason);
+    report(context, { type: "changed", path, before: objA, after: objB });
+    if (budget.onLimit === "unequal") {
+      budget.aborted = true;
+    }
+    return false;
+  }
+  budget.nodes++;
+
+  visited.a.set(objA, objB);
+  visited.b.set(objB, objA);
+  context.depth++;
+  try {
+    return traverseObjects(objA, objB, path, context);
+  } finally {
+    context.depth--;
+    visited.a.delete(objA);
+    visited.b.delete(objB);
+  }
+}
+
+export function createTraverseContext(
+  rules: StrictRules,
+  onDifference: (difference: Difference) => boolean,
+  { maxDepth = Infinity, maxNodes = Infinity, onLimit = "reference" }: TraverseLimits = {}
+): TraverseContext {
+  return {
+    visited: { a: new Map(), b: new Map() },
+    rules,
+    report: onDifference,
+    stopped: false,
+    depth: 0,
+    budget: {
+      maxDepth,
+      maxNodes,
+      onLimit,
+      nodes: 0,
+      exceeded: new Set(),
+      aborted: false,
+    },
+  };
+}
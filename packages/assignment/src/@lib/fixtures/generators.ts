@@ -0,0 +1,151 @@
+import { FIXTURE_LOCALES, FixtureLocale, NotificationType } from "./locales";
+import { NumberRange, Random, Weights, createRandom } from "./random";
+
+export interface FixtureOptions {
+  // 같은 seed로 만든 데이터는 항상 같다. (기본값: 1)
+  seed?: number | string;
+  // 여러 생성기가 한 난수 생성기를 이어서 쓰게 하려면 seed 대신 넘긴다.
+  random?: Random;
+  // 이름과 문구의 언어 (기본값: ko)
+  locale?: FixtureLocale;
+  // 첫 번째 레코드의 id
+  startId?: number;
+}
+
+// 목록을 넘기면 같은 비중으로 뽑는다.
+export type CategoryDistribution<K extends string> = readonly K[] | Weights<K>;
+
+export interface FixtureItem<K extends string = string> {
+  id: number;
+  name: string;
+  category: K;
+  price: number;
+}
+
+export interface ItemFixtureOptions<K extends string> extends FixtureOptions {
+  // 기본값: locale의 상품 카테고리를 같은 비중으로
+  categories?: CategoryDistribution<K>;
+  // 가격 범위. 카테고리마다 다르게 하려면 함수를 넘긴다. (기본값: 1,000 ~ 100,999)
+  price?: NumberRange | ((category: K) => NumberRange);
+}
+
+export interface FixtureNewsItem<K extends string = string> {
+  id: number;
+  title: string;
+  category: K;
+  likes: number;
+  content: string;
+}
+
+export interface NewsFixtureOptions<K extends string> extends FixtureOptions {
+  // 기본값: locale의 뉴스 카테고리를 같은 비중으로
+  categories?: CategoryDistribution<K>;
+  // 좋아요 수 범위 (기본값: 0 ~ 99)
+  likes?: NumberRange;
+}
+
+export interface FixtureUser {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface FixtureNotification {
+  id: number;
+  message: string;
+  type: NotificationType;
+}
+
+export interface NotificationFixtureOptions extends FixtureOptions {
+  // 알림 종류별 비중 (기본값: info 4, success 3, warning 2, error 1)
+  types?: Weights<NotificationType>;
+}
+
+const DEFAULT_PRICE: NumberRange = { min: 1000, max: 100999 };
+const DEFAULT_LIKES: NumberRange = { min: 0, max: 99 };
+const DEFAULT_NOTIFICATION_TYPES: Weights<NotificationType> = { info: 4, success: 3, warning: 2, error: 1 };
+
+function toWeights<K extends string>(distribution: CategoryDistribution<K>): Weights<K> {
+  if (!Array.isArray(distribution)) {
+    return distribution as Weights<K>;
+  }
+  return Object.fromEntries(distribution.map((category) => [category, 1])) as Weights<K>;
+}
+
+function getRandom({ seed = 1, random }: FixtureOptions): Random {
+  return random ?? createRandom(seed);
+}
+
+// createItemFixtures 함수는 seed로 상품 목록을 만듭니다.
+//    createItemFixtures(3, { seed: 42, categories: { 전자기기: 3, 도서: 1 }, price: { min: 1000, max: 9000, step: 1000 } })
+export function createItemFixtures<K extends string = string>(
+  count: number,
+  options: ItemFixtureOptions<K> = {}
+): FixtureItem<K>[] {
+  const random = getRandom(options);
+  const text = FIXTURE_LOCALES[options.locale ?? "ko"];
+  const { startId = 0, price = DEFAULT_PRICE } = options;
+  const categories = toWeights(options.categories ?? (text.itemCategories as readonly K[]));
+
+  return Array.from({ length: count }, (_, index) => {
+    const id = startId + index;
+    const category = random.weighted(categories);
+    return {
+      id,
+      name: text.itemName(id),
+      category,
+      price: random.range(typeof price === "function" ? price(category) : price),
+    };
+  });
+}
+
+// createNewsFixtures 함수는 seed로 뉴스 목록을 만듭니다.
+export function createNewsFixtures<K extends string = string>(
+  count: number,
+  options: NewsFixtureOptions<K> = {}
+): FixtureNewsItem<K>[] {
+  const random = getRandom(options);
+  const text = FIXTURE_LOCALES[options.locale ?? "ko"];
+  const { startId = 1, likes = DEFAULT_LIKES } = options;
+  const categories = toWeights(options.categories ?? (text.newsCategories as readonly K[]));
+
+  return Array.from({ length: count }, (_, index) => {
+    const id = startId + index;
+    return {
+      id,
+      title: text.newsTitle(id),
+      category: random.weighted(categories),
+      likes: random.range(likes),
+      content: text.newsContent(id),
+    };
+  });
+}
+
+// createUserFixtures 함수는 seed로 사용자 목록을 만듭니다. 이름은 locale의 성과 이름을 조합합니다.
+export function createUserFixtures(count: number, options: FixtureOptions = {}): FixtureUser[] {
+  const random = getRandom(options);
+  const text = FIXTURE_LOCALES[options.locale ?? "ko"];
+  const { startId = 1 } = options;
+
+  return Array.from({ length: count }, (_, index) => {
+    const id = startId + index;
+    const family = random.pick(text.familyNames);
+    const given = random.pick(text.givenNames);
+    return { id, name: text.fullName(family, given), email: text.email(family, given, id) };
+  });
+}
+
+// createNotificationFixtures 함수는 seed로 알림 목록을 만듭니다. 문구는 알림 종류에 맞는 locale 문구에서 고릅니다.
+export function createNotificationFixtures(
+  count: number,
+  options: NotificationFixtureOptions = {}
+): FixtureNotification[] {
+  const random = getRandom(options);
+  const text = FIXTURE_LOCALES[options.locale ?? "ko"];
+  const { startId = 1, types = DEFAULT_NOTIFICATION_TYPES } = options;
+
+  return Array.from({ length: count }, (_, index) => {
+    const type = random.weighted(types);
+    return { id: startId + index, message: random.pick(text.notifications[type]), type };
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./random";
+export * from "./locales";
+export * from "./generators";
@@ -0,0 +1,55 @@
+export type FixtureLocale = "ko" | "en";
+
+export type NotificationType = "info" | "success" | "warning" | "error";
+
+export interface FixtureLocaleText {
+  itemName: (id: number) => string;
+  itemCategories: readonly string[];
+  newsTitle: (id: number) => string;
+  newsContent: (id: number) => string;
+  newsCategories: readonly string[];
+  familyNames: readonly string[];
+  givenNames: readonly string[];
+  // 이름 순서 (ko: 성 + 이름, en: 이름 + 성)
+  fullName: (family: string, given: string) => string;
+  email: (family: string, given: string, id: number) => string;
+  notifications: Record<NotificationType, readonly string[]>;
+}
+
+export const FIXTURE_LOCALES: Record<FixtureLocale, FixtureLocaleText> = {
+  ko: {
+    itemName: (id) => `상품 ${id}`,
+    itemCategories: ["전자기기", "의류", "도서", "식품"],
+    newsTitle: (id) => `뉴스 제목 ${id}`,
+    newsContent: (id) => `이것은 뉴스 ${id}의 내용입니다. 실제 내용은 더 길 것입니다.`,
+    newsCategories: ["정치", "경제", "사회", "문화"],
+    familyNames: ["김", "이", "박", "최", "정", "강", "조", "윤", "장", "임"],
+    givenNames: ["민준", "서연", "도윤", "지우", "하준", "서윤", "시우", "하은", "주원", "지민"],
+    fullName: (family, given) => `${family}${given}`,
+    // 한글 이름은 주소에 쓰지 않는다.
+    email: (_family, _given, id) => `user${id}@example.com`,
+    notifications: {
+      info: ["새 소식이 있습니다", "로그아웃되었습니다", "설정이 변경되었습니다"],
+      success: ["성공적으로 로그인되었습니다", "폼이 성공적으로 제출되었습니다", "저장되었습니다"],
+      warning: ["저장 공간이 부족합니다", "세션이 곧 만료됩니다"],
+      error: ["요청을 처리하지 못했습니다", "네트워크에 연결할 수 없습니다"],
+    },
+  },
+  en: {
+    itemName: (id) => `Product ${id}`,
+    itemCategories: ["Electronics", "Clothing", "Books", "Food"],
+    newsTitle: (id) => `News title ${id}`,
+    newsContent: (id) => `This is the content of news ${id}. The real content would be longer.`,
+    newsCategories: ["Politics", "Economy", "Society", "Culture"],
+    familyNames: ["Smith", "Johnson", "Brown", "Lee", "Garcia", "Miller", "Davis", "Wilson", "Taylor", "Clark"],
+    givenNames: ["James", "Olivia", "Liam", "Emma", "Noah", "Ava", "Lucas", "Mia", "Ethan", "Sophia"],
+    fullName: (family, given) => `${given} ${family}`,
+    email: (family, given, id) => `${given}.${family}${id}@example.com`.toLowerCase(),
+    notifications: {
+      info: ["You have new updates", "You have been logged out", "Your settings have changed"],
+      success: ["Logged in successfully", "The form was submitted successfully", "Saved"],
+      warning: ["Storage is almost full", "Your session will expire soon"],
+      error: ["The request could not be processed", "Unable to connect to the network"],
+    },
+  },
+};
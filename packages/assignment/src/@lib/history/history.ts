@@ -0,0 +1,202 @@
+// 되돌리기/다시 실행을 위한 상태 기록
+//    - past: 이전 상태들 (오래된 것부터)
+//    - present: 현재 상태
+//    - future: 되돌린 상태들 (가까운 것부터)
+export interface HistoryEntry<T> {
+  value: T;
+  // 기록된 시각 (Date.now())
+  timestamp: number;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+export interface PushOptions {
+  // 보관할 이전 상태의 최대 개수. 넘치면 오래된 것부터 지운다.
+  limit?: number;
+  // true라면 새 기록을 만들지 않고 현재 기록을 바꾼다. (트랜잭션, 빠른 연속 입력)
+  merge?: boolean;
+  timestamp?: number;
+}
+
+type Indexable = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Indexable {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// shareStructure 함수는 next에서 prev와 값이 같은 부분을 prev의 참조로 바꿉니다.
+// 기록마다 같은 하위 값을 따로 들고 있지 않게 하고, 값이 같다면 prev를 그대로 돌려줍니다.
+// 일반 객체와 배열만 나눠서 비교하고, 그 밖의 값은 참조로 비교합니다.
+export function shareStructure<T>(prev: T, next: T): T {
+  if (Object.is(prev, next)) {
+    return prev;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const shared = next.map((item, index) => shareStructure(prev[index], item));
+    if (prev.length === next.length && shared.every((item, index) => item === prev[index])) {
+      return prev;
+    }
+    return shared.every((item, index) => item === next[index]) ? next : (shared as T);
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const keys = Object.keys(next);
+    const shared: Indexable = {};
+    for (const key of keys) {
+      shared[key] = Object.prototype.hasOwnProperty.call(prev, key)
+        ? shareStructure(prev[key], next[key])
+        : next[key];
+    }
+    if (
+      keys.length === Object.keys(prev).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(prev, key) && shared[key] === prev[key])
+    ) {
+      return prev;
+    }
+    return keys.every((key) => shared[key] === next[key]) ? next : (shared as T);
+  }
+
+  return next;
+}
+
+export function createHistory<T>(initialValue: T, timestamp = Date.now()): History<T> {
+  return { past: [], present: { value: initialValue, timestamp }, future: [] };
+}
+
+// pushHistory 함수는 새 상태를 기록합니다. 값이 바뀌지 않았다면 history를 그대로 돌려줍니다.
+export function pushHistory<T>(
+  history: History<T>,
+  value: T,
+  { limit = 100, merge = false, timestamp = Date.now() }: PushOptions = {}
+): History<T> {
+  const shared = shareStructure(history.present.value, value);
+  if (shared === history.present.value) {
+    return history;
+  }
+
+  const present = { value: shared, timestamp };
+  if (merge) {
+    return { past: history.past, present, future: [] };
+  }
+
+  const past = [...history.past, history.present];
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present,
+    future: [],
+  };
+}
+
+// jumpHistory 함수는 steps만큼 이동합니다. 음수는 되돌리기, 양수는 다시 실행입니다.
+// 이동할 수 있는 만큼만 이동합니다.
+export function jumpHistory<T>(history: History<T>, steps: number): History<T> {
+  if (steps < 0) {
+    const count = Math.min(-steps, history.past.length);
+    if (count === 0) {
+      return history;
+    }
+    const index = history.past.length - count;
+    return {
+      past: history.past.slice(0, index),
+      present: history.past[index],
+      future: [...history.past.slice(index + 1), history.present, ...history.future],
+    };
+  }
+
+  const count = Math.min(steps, history.future.length);
+  if (count === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present, ...history.future.slice(0, count - 1)],
+    present: history.future[count - 1],
+    future: history.future.slice(count),
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  return jumpHistory(history, -1);
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  return jumpHistory(history, 1);
+}
+
+export interface HistoryOptions {
+  // 보관할 이전 상태의 최대 개수 (기본값: 100)
+  limit?: number;
+  // 이 시간(ms) 안에 연달아 일어난 변경은 하나의 기록으로 합친다. (기본값: 0, 합치지 않음)
+  groupDelay?: number;
+}
+
+export interface HistoryControls {
+  undo(): void;
+  redo(): void;
+  // steps만큼 이동한다. 음수는 되돌리기, 양수는 다시 실행
+  jump(steps: number): void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  // callback 안에서 일어난 변경을 하나의 기록으로 합친다.
+  transaction(callback: () => void): void;
+}
+
+export interface TransactionTracker {
+  // 다음 변경을 현재 기록에 합칠지 결정한다. groupKey가 직전 변경과 같다면 항상 합친다.
+  shouldMerge(timestamp: number, groupKey?: unknown): boolean;
+  transaction(callback: () => void): void;
+  // 되돌리기 등으로 기록을 옮긴 뒤에는 다음 변경을 새 기록으로 시작한다.
+  reset(): void;
+}
+
+export function createTransactionTracker(groupDelay = 0): TransactionTracker {
+  let depth = 0;
+  let recordedInTransaction = false;
+  let lastTimestamp = -Infinity;
+  let lastGroupKey: unknown = undefined;
+
+  const reset = () => {
+    lastTimestamp = -Infinity;
+    lastGroupKey = undefined;
+  };
+
+  return {
+    shouldMerge(timestamp, groupKey) {
+      let merge: boolean;
+      if (depth > 0) {
+        merge = recordedInTransaction;
+        recordedInTransaction = true;
+      } else {
+        merge =
+          (groupKey !== undefined && groupKey === lastGroupKey) ||
+          (groupDelay > 0 && timestamp - lastTimestamp < groupDelay);
+      }
+      lastTimestamp = timestamp;
+      lastGroupKey = groupKey;
+      return merge;
+    },
+    transaction(callback) {
+      if (depth === 0) {
+        recordedInTransaction = false;
+      }
+      depth++;
+      try {
+        callback();
+      } finally {
+        depth--;
+        if (depth === 0) {
+          reset();
+        }
+      }
+    },
+    reset,
+  };
+}
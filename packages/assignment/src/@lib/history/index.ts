@@ -0,0 +1,3 @@
+export * from "./history";
+export * from "./useHistoryState";
+export * from "./useUndoShortcuts";
@@ -0,0 +1,62 @@
+import { SetStateAction, useState } from "react";
+import { useCallback, useMemo, useRef } from "../hooks";
+import {
+  HistoryControls,
+  HistoryOptions,
+  TransactionTracker,
+  createHistory,
+  createTransactionTracker,
+  jumpHistory,
+  pushHistory,
+} from "./history";
+
+// useHistoryState 훅은 useState처럼 사용하면서 되돌리기/다시 실행을 할 수 있는 상태를 만듭니다.
+//    - 이전 상태는 limit개까지 보관하고, 같은 하위 값은 이전 기록과 참조를 공유한다.
+//    - groupDelay 안에 연달아 일어난 변경(빠른 타이핑 등)은 하나의 기록으로 합친다.
+//    - transaction(callback) 안의 변경도 하나의 기록으로 합친다.
+export function useHistoryState<T>(
+  initialValue: T | (() => T),
+  { limit = 100, groupDelay = 0 }: HistoryOptions = {}
+): [T, (value: SetStateAction<T>) => void, HistoryControls] {
+  const [history, setHistory] = useState(() =>
+    createHistory(typeof initialValue === "function" ? (initialValue as () => T)() : initialValue)
+  );
+
+  const tracker = useRef<TransactionTracker | null>(null);
+  if (tracker.current === null) {
+    tracker.current = createTransactionTracker(groupDelay);
+  }
+  const limitRef = useRef(limit);
+  limitRef.current = limit;
+
+  const setState = useCallback((value: SetStateAction<T>) => {
+    const timestamp = Date.now();
+    const merge = tracker.current!.shouldMerge(timestamp);
+    setHistory((prev) =>
+      pushHistory(
+        prev,
+        typeof value === "function" ? (value as (prevState: T) => T)(prev.present.value) : value,
+        { limit: limitRef.current, merge, timestamp }
+      )
+    );
+  }, []);
+
+  const jump = useCallback((steps: number) => {
+    tracker.current!.reset();
+    setHistory((prev) => jumpHistory(prev, steps));
+  }, []);
+
+  const controls = useMemo<HistoryControls>(
+    () => ({
+      undo: () => jump(-1),
+      redo: () => jump(1),
+      jump,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      transaction: (callback) => tracker.current!.transaction(callback),
+    }),
+    [jump, history.past.length, history.future.length]
+  );
+
+  return [history.present.value, setState, controls];
+}
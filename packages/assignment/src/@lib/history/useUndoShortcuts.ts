@@ -0,0 +1,63 @@
+import { RefObject, useEffect } from "react";
+import { useRef } from "../hooks";
+
+export interface UndoShortcutHandlers {
+  undo(): void;
+  redo(): void;
+  // true일 때만 입력을 처리하고, 아니라면 바깥(예: 화면 전체)이나 브라우저 기본 동작으로 넘긴다. (기본값: false)
+  // 저장소의 기록처럼 렌더링과 관계없이 바뀌는 값은 함수나 getter로 넘기면 키를 누를 때 확인한다.
+  canUndo?: boolean | (() => boolean);
+  canRedo?: boolean | (() => boolean);
+}
+
+function isEditable(element: EventTarget | null): boolean {
+  if (!(element instanceof HTMLElement)) {
+    return false;
+  }
+  return element.isContentEditable || element.tagName === "INPUT" || element.tagName === "TEXTAREA";
+}
+
+function resolve(flag: boolean | (() => boolean) | undefined): boolean {
+  return typeof flag === "function" ? flag() : flag === true;
+}
+
+// useUndoShortcuts 훅은 Ctrl+Z(⌘+Z)로 되돌리기, Ctrl+Shift+Z(⌘+Shift+Z)와 Ctrl+Y로 다시 실행을 연결합니다.
+// target을 넘기면 그 요소 안에서 일어난 키 입력만 처리하고, 없으면 window 전체에서 처리합니다.
+//    - 안쪽 요소에서 이미 처리한 입력(preventDefault)은 무시하므로, 폼과 화면 전체에 함께 연결할 수 있다.
+//    - 입력창에서 누른 키는 그 입력창이 target 안에 있을 때만 처리하고, 아니라면 브라우저의 입력 되돌리기에 맡긴다.
+export function useUndoShortcuts(handlers: UndoShortcutHandlers, target?: RefObject<HTMLElement>) {
+  // 키를 누를 때 최신 handlers를 읽으므로, 렌더링마다 이벤트를 다시 연결하지 않는다.
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    const element: HTMLElement | Window | null = target ? target.current : window;
+    if (element === null) {
+      return;
+    }
+
+    const handleKeyDown = (event: Event) => {
+      const { key, ctrlKey, metaKey, shiftKey, defaultPrevented } = event as KeyboardEvent;
+      if (defaultPrevented || !(ctrlKey || metaKey)) {
+        return;
+      }
+      if (isEditable(event.target) && element === window) {
+        return;
+      }
+      const { undo, redo, canUndo, canRedo } = latest.current;
+      const lowerKey = key.toLowerCase();
+      const isUndo = lowerKey === "z" && !shiftKey;
+      const isRedo = (lowerKey === "z" && shiftKey) || lowerKey === "y";
+      if (isUndo && resolve(canUndo)) {
+        event.preventDefault();
+        undo();
+      } else if (isRedo && resolve(canRedo)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    element.addEventListener("keydown", handleKeyDown);
+    return () => element.removeEventListener("keydown", handleKeyDown);
+  }, [target]);
+}
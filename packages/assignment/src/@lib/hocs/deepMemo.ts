@@ -1,9 +1,10 @@
-import { deepEquals } from "../equalities";
+import { getDeepMemoEquals, DeepMemoOptions } from "../hooks";
 import { ComponentType } from "react";
 import { memo } from "./memo.ts";
 
 export function deepMemo<P extends object>(
   Component: ComponentType<P>,
+  options?: DeepMemoOptions,
 ) {
-  return memo(Component, deepEquals);
+  return memo(Component, getDeepMemoEquals(options));
 }
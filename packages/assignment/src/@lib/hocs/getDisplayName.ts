@@ -0,0 +1,4 @@
+// getDisplayName 함수는 HOC가 감싼 컴포넌트의 이름을 돌려줍니다. (displayName → 함수 이름 → "Component")
+export function getDisplayName(Component: { displayName?: string; name?: string }): string {
+  return Component.displayName || Component.name || "Component";
+}
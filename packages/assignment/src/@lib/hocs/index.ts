@@ -1,2 +1,3 @@
 export * from "./deepMemo";
 export * from "./memo";
+export * from "./getDisplayName";
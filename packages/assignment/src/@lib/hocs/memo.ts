@@ -1,12 +1,111 @@
 import { shallowEquals } from "../equalities";
-import { ComponentType } from "react";
+import { useRef } from "../hooks";
+import { isRenderTracingEnabled, traceRender } from "../debug/renderTracing";
+import { getDisplayName } from "./getDisplayName";
+import {
+  ComponentType,
+  ForwardedRef,
+  ReactElement,
+  createElement,
+  forwardRef,
+} from "react";
 
+interface Memoized<P> {
+  props: P;
+  ref: ForwardedRef<unknown> | null;
+  element: ReactElement;
+}
+
+// React가 직접 사용하는 정적 속성과 함수 기본 속성은 옮기지 않는다.
+const SKIPPED_STATICS = new Set<PropertyKey>([
+  "$$typeof",
+  "render",
+  "compare",
+  "type",
+  "displayName",
+  "defaultProps",
+  "propTypes",
+  "contextType",
+  "contextTypes",
+  "childContextTypes",
+  "getDefaultProps",
+  "getDerivedStateFromError",
+  "getDerivedStateFromProps",
+  "name",
+  "length",
+  "prototype",
+  "caller",
+  "callee",
+  "arguments",
+  "arity",
+]);
+
+const FORWARD_REF_TYPE = Symbol.for("react.forward_ref");
+
+function isForwardRef(Component: object): boolean {
+  return (Component as unknown as { $$typeof?: symbol }).$$typeof === FORWARD_REF_TYPE;
+}
+
+// 감싼 컴포넌트의 정적 속성(Header.Title 같은 하위 컴포넌트 등)을 memo 컴포넌트로 옮긴다.
+function hoistStatics(target: object, source: object) {
+  for (const key of Reflect.ownKeys(source)) {
+    if (SKIPPED_STATICS.has(key) || Object.prototype.hasOwnProperty.call(target, key)) {
+      continue;
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(source, key);
+    if (descriptor) {
+      Object.defineProperty(target, key, descriptor);
+    }
+  }
+}
+
+// 이전 props(와 ref)가 같다면 이전에 만든 element를 그대로 돌려준다.
+// 같은 element를 돌려받은 React는 하위 컴포넌트를 다시 렌더링하지 않는다.
+// 컨텍스트 변경은 element와 관계없이 전파되므로, 컨텍스트를 읽는 컴포넌트는 그대로 다시 렌더링된다.
+function useMemoizedElement<P extends object>(
+  Component: ComponentType<P>,
+  name: string,
+  props: P,
+  ref: ForwardedRef<unknown> | null,
+  equals: (prevProps: P, nextProps: P) => boolean
+): ReactElement {
+  const memoized = useRef<Memoized<P> | null>(null);
+
+  if (
+    memoized.current === null ||
+    memoized.current.ref !== ref ||
+    !equals(memoized.current.props, props)
+  ) {
+    if (import.meta.env.DEV && isRenderTracingEnabled()) {
+      traceRender("memo", name, memoized.current?.props ?? null, props);
+    }
+    memoized.current = {
+      props,
+      ref,
+      element: createElement(Component, ref === null ? props : { ...props, ref }),
+    };
+  }
+
+  return memoized.current.element;
+}
+
+// memo HOC는 equals(이전 props, 다음 props)가 true라면 컴포넌트를 다시 렌더링하지 않습니다.
+//    - displayName은 Memo(컴포넌트 이름)으로 설정합니다.
+//    - forwardRef로 만든 컴포넌트라면 ref를 전달합니다.
+//    - 감싼 컴포넌트의 정적 속성을 옮겨옵니다.
 export function memo<P extends object>(
   Component: ComponentType<P>,
-  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-  // @ts-ignore
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  equals = shallowEquals
-) {
-  return Component;
+  equals: (prevProps: P, nextProps: P) => boolean = shallowEquals
+): ComponentType<P> {
+  const displayName = `Memo(${getDisplayName(Component)})`;
+  const MemoizedComponent: ComponentType<P> = isForwardRef(Component)
+    ? (forwardRef<unknown, P>((props, ref) =>
+        useMemoizedElement(Component, displayName, props as P, ref, equals)
+      ) as unknown as ComponentType<P>)
+    : (props: P) => useMemoizedElement(Component, displayName, props, null, equals);
+
+  hoistStatics(MemoizedComponent, Component);
+  MemoizedComponent.displayName = displayName;
+
+  return MemoizedComponent;
 }
@@ -2,3 +2,11 @@ export * from "./useDeepMemo";
 export * from "./useMemo";
 export * from "./useCallback";
 export * from "./useRef";
+export * from "./useEvent";
+export * from "./useDebouncedValue";
+export * from "./useThrottledCallback";
+export * from "./useSearchValue";
+export * from "./useAsyncMemo";
+export * from "./useMemoCache";
+export * from "./usePersistentState";
+export * from "./useSearch";
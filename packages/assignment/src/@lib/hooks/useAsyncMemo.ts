@@ -0,0 +1,98 @@
+import { DependencyList, useEffect, useState } from "react";
+import { Equals, shallowEquals } from "../equalities";
+import { DeepMemoOptions, getDeepMemoEquals } from "./useDeepMemo";
+import { useTracedMemo } from "./useTracedMemo";
+
+export type AsyncMemoStatus = "loading" | "success" | "error";
+
+export interface AsyncMemoState<T> {
+  data: T | undefined;
+  error: unknown;
+  status: AsyncMemoStatus;
+}
+
+export interface AsyncMemoOptions {
+  // deps를 비교할 함수 (기본값: shallowEquals)
+  equals?: Equals;
+  // deps가 바뀌어 다시 불러오는 동안 이전 data를 유지한다.
+  keepPreviousData?: boolean;
+}
+
+export type AsyncMemoFactory<T> = (signal: AbortSignal) => Promise<T>;
+
+// deps가 바뀔 때마다 새로 만드는 요청. 응답이 어느 요청의 것인지 참조로 구분한다.
+interface Request<T> {
+  factory: AsyncMemoFactory<T>;
+}
+
+interface Settled<T> extends AsyncMemoState<T> {
+  request: Request<T> | null;
+}
+
+const INITIAL: Settled<never> = { request: null, data: undefined, error: undefined, status: "loading" };
+
+function useAsyncMemoWith<T>(
+  factory: AsyncMemoFactory<T>,
+  deps: DependencyList,
+  equals: Equals,
+  keepPreviousData: boolean
+): AsyncMemoState<T> {
+  // deps 비교는 useMemo와 같은 규칙을 따른다. 같다고 판단되면 같은 요청을 유지한다.
+  const request = useTracedMemo<Request<T>>("useAsyncMemo", () => ({ factory }), deps, equals);
+  const [settled, setSettled] = useState<Settled<T>>(INITIAL);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    // factory가 promise를 돌려주기 전에 예외를 던져도 rejected promise처럼 에러 상태로 바꾼다.
+    new Promise<T>((resolve) => resolve(request.factory(controller.signal))).then(
+      (data) => {
+        if (!controller.signal.aborted) {
+          setSettled({ request, data, error: undefined, status: "success" });
+        }
+      },
+      (error: unknown) => {
+        if (!controller.signal.aborted) {
+          setSettled((prev) => ({ request, data: prev.data, error, status: "error" }));
+        }
+      }
+    );
+
+    // deps가 바뀌거나 언마운트되면 진행 중인 요청을 취소하고, 늦게 도착한 결과는 버린다.
+    return () => controller.abort();
+  }, [request]);
+
+  if (settled.request === request) {
+    const data = settled.status === "error" && !keepPreviousData ? undefined : settled.data;
+    return { data, error: settled.error, status: settled.status };
+  }
+  return { data: keepPreviousData ? settled.data : undefined, error: undefined, status: "loading" };
+}
+
+// useAsyncMemo 훅은 비동기 factory의 결과를 deps 단위로 메모이제이션합니다.
+//    - factory에는 AbortSignal을 넘기고, deps가 바뀌거나 언마운트되면 abort한다.
+//    - 이전 deps로 시작한 요청의 결과는 늦게 도착해도 무시한다.
+//    - factory가 reject하거나 동기적으로 예외를 던지면 status가 error가 된다.
+//    - 세 번째 인자로 비교 함수 또는 옵션({ equals, keepPreviousData })을 받는다.
+export function useAsyncMemo<T>(
+  factory: AsyncMemoFactory<T>,
+  deps: DependencyList,
+  equalsOrOptions: Equals | AsyncMemoOptions = shallowEquals
+): AsyncMemoState<T> {
+  const { equals = shallowEquals, keepPreviousData = false } =
+    typeof equalsOrOptions === "function" ? { equals: equalsOrOptions } : equalsOrOptions;
+  return useAsyncMemoWith(factory, deps, equals, keepPreviousData);
+}
+
+export interface DeepAsyncMemoOptions extends DeepMemoOptions {
+  keepPreviousData?: boolean;
+}
+
+// useDeepAsyncMemo 훅은 useDeepMemo처럼 deps를 깊게 비교하는 useAsyncMemo입니다.
+export function useDeepAsyncMemo<T>(
+  factory: AsyncMemoFactory<T>,
+  deps: DependencyList,
+  { keepPreviousData = false, ...options }: DeepAsyncMemoOptions = {}
+): AsyncMemoState<T> {
+  return useAsyncMemoWith(factory, deps, getDeepMemoEquals(options), keepPreviousData);
+}
@@ -1,9 +1,15 @@
 import { DependencyList } from "react";
+import { shallowEquals } from "../equalities";
+import { useMemo } from "./useMemo";
 
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-// eslint-disable-next-line @typescript-eslint/no-unused-vars,@typescript-eslint/no-explicit-any
-export function useCallback<T extends (...args: any[]) => any>(factory: T, deps: DependencyList): T {
-  // 직접 작성한 useMemo를 통해서 만들어보세요.
-  return ((...args) => factory(...args)) as T
+// useCallback 훅은 deps가 바뀌기 전까지 같은 함수 참조를 돌려줍니다.
+// 직접 만든 useMemo로 함수 자체를 메모이제이션하며, deps 비교 함수를 주입할 수 있습니다.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function useCallback<T extends (...args: any[]) => any>(
+  factory: T,
+  deps: DependencyList,
+  equals: (prevDeps: DependencyList, nextDeps: DependencyList) => boolean = shallowEquals
+): T {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => factory, deps, equals, "useCallback");
 }
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { TimingOptions, debounce } from "../timing";
+import { useMemo } from "./useMemo";
+
+// useDebouncedValue 훅은 value가 delay 동안 바뀌지 않을 때 그 값을 돌려줍니다.
+//    - leading을 켜면 연속 변경의 첫 값을 바로 반영한다.
+//    - delay나 옵션이 바뀌거나 언마운트되면 기다리던 변경을 취소한다.
+export function useDebouncedValue<T>(value: T, delay: number, { leading = false, trailing = true }: TimingOptions = {}): T {
+  const [debounced, setDebounced] = useState(value);
+
+  // 함수 값도 그대로 저장하도록 updater로 감싼다.
+  const update = useMemo(
+    () => debounce((next: T) => setDebounced(() => next), delay, { leading, trailing }),
+    [delay, leading, trailing]
+  );
+
+  useEffect(() => () => update.cancel(), [update]);
+
+  useEffect(() => {
+    // 이미 반영된 값이라면 타이머를 시작하지 않는다.
+    if (Object.is(value, debounced) && !update.pending()) {
+      return;
+    }
+    update(value);
+  }, [update, value, debounced]);
+
+  return debounced;
+}
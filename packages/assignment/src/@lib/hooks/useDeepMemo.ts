@@ -1,11 +1,25 @@
 import { DependencyList } from "react";
-import { useMemo } from "./useMemo";
-import { deepEquals } from "../equalities";
+import { useTracedMemo } from "./useTracedMemo";
+import { Equals, createHashedEquals, deepEquals } from "../equalities";
 
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
+export interface DeepMemoOptions {
+  // deps(또는 props)를 비교할 함수 (기본값: deepEquals)
+  equals?: Equals;
+  // 구조 해시가 다르면 equals를 호출하지 않고 바로 다르다고 판단한다.
+  hash?: boolean;
+  // hash와 함께 사용. 입력이 바뀌지 않는 값이라면 해시를 WeakMap에 캐시한다.
+  immutable?: boolean;
+}
+
+export function getDeepMemoEquals({
+  equals = deepEquals,
+  hash = false,
+  immutable = false,
+}: DeepMemoOptions = {}): Equals {
+  return hash ? createHashedEquals({ immutable, equals }) : equals;
+}
 
-export function useDeepMemo<T>(factory: () => T, deps: DependencyList): T {
-  // 직접 작성한 useMemo를 참고해서 만들어보세요.
-  return useMemo(factory, deps, deepEquals)
+// useDeepMemo 훅은 deps를 깊게 비교해서, 값이 같다면 참조가 바뀌어도 이전 결과를 유지합니다.
+export function useDeepMemo<T>(factory: () => T, deps: DependencyList, options?: DeepMemoOptions): T {
+  return useTracedMemo("useDeepMemo", factory, deps, getDeepMemoEquals(options));
 }
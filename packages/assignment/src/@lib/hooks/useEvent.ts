@@ -0,0 +1,49 @@
+import { useInsertionEffect } from "react";
+import { isRendering } from "../debug/owner";
+import { useRef } from "./useRef";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type EventHandler = (...args: any[]) => any;
+
+function throwRenderCall(): never {
+  throw new Error("useEvent handler cannot be called during render");
+}
+
+// useEvent 훅은 항상 같은 참조의 함수를 돌려주고, 호출하면 마지막으로 커밋된 렌더링의 handler를 실행합니다.
+//    - deps 없이도 최신 props와 state를 읽을 수 있으므로 useCallback의 긴 deps 목록이 필요 없다.
+//    - handler는 커밋된 뒤에 바꾸므로, 버려진 렌더링(StrictMode, concurrent 렌더링)의 handler는 호출되지 않는다.
+//    - 렌더링 중에 호출하면 에러를 던진다. 이벤트 핸들러나 effect에서만 호출해야 한다.
+//      (배포 빌드에서는 이 컴포넌트를 렌더링하는 중에 호출한 경우만 찾아낸다)
+export function useEvent<T extends EventHandler>(handler: T): T {
+  // 첫 커밋 전에는 호출할 handler가 없으므로 에러를 던지는 함수로 시작한다.
+  const handlerRef = useRef<EventHandler>(throwRenderCall);
+  const event = useRef<T | null>(null);
+
+  // 렌더링하는 동안 켜 두는 표시. React 내부 값을 읽을 수 없는 배포 빌드에서도 렌더링 중 호출을 막는다.
+  // 커밋되면 끄고, 버려진 렌더링에서 켜진 채로 남지 않도록 렌더링이 끝난 뒤(microtask)에도 끈다.
+  const rendering = useRef(false);
+  if (!rendering.current) {
+    rendering.current = true;
+    queueMicrotask(() => {
+      rendering.current = false;
+    });
+  }
+
+  // 다른 effect보다 먼저 실행되도록 insertion effect에서 바꾼다.
+  useInsertionEffect(() => {
+    handlerRef.current = handler;
+    rendering.current = false;
+  });
+
+  if (event.current === null) {
+    event.current = ((...args) => {
+      // 개발 빌드에서는 다른 컴포넌트를 렌더링하는 중에 호출한 경우도 찾아낸다.
+      if (rendering.current || (import.meta.env.DEV && isRendering())) {
+        throwRenderCall();
+      }
+      return handlerRef.current(...args);
+    }) as T;
+  }
+
+  return event.current;
+}
@@ -1,10 +1,16 @@
 import { DependencyList } from "react";
+import { TraceSource } from "../debug/renderTracing";
 import { shallowEquals } from "../equalities";
+import { useTracedMemo } from "./useTracedMemo";
 
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function useMemo<T>(factory: () => T, deps: DependencyList, equals = shallowEquals): T {
-  // 직접 작성한 useRef를 통해서 만들어보세요.
-  return factory();
+// useMemo 훅은 equals(이전 deps, 다음 deps)가 false일 때만 factory를 다시 실행합니다.
+// 결과와 deps는 직접 만든 useRef에 저장합니다.
+// source는 렌더링 원인 기록과 deps 검사에 남길 훅 이름입니다. (useMemo 위에 만든 훅이 자기 이름을 남길 때 사용)
+export function useMemo<T>(
+  factory: () => T,
+  deps: DependencyList,
+  equals: (prevDeps: DependencyList, nextDeps: DependencyList) => boolean = shallowEquals,
+  source: TraceSource = "useMemo"
+): T {
+  return useTracedMemo(source, factory, deps, equals);
 }
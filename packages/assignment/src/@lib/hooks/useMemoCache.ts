@@ -0,0 +1,56 @@
+import { DependencyList } from "react";
+import { LruCache, LruCacheOptions, createLruCache } from "../cache";
+import { DepsLintState, isDepsLintingEnabled, lintDeps, runLintedFactory } from "../debug/depsLinting";
+import { isRenderTracingEnabled, traceRender } from "../debug/renderTracing";
+import { shallowEquals } from "../equalities";
+import { useRef } from "./useRef";
+
+export interface MemoCacheOptions<T> extends LruCacheOptions {
+  // 직접 만든 캐시를 사용한다. 여러 컴포넌트가 같은 factory로 계산한 결과를 공유하거나, stats를 확인할 때 사용한다.
+  cache?: LruCache<DependencyList, T>;
+}
+
+interface LastUsed<T> {
+  deps: DependencyList;
+  value: T;
+  lint?: DepsLintState;
+}
+
+// useMemoCache 훅은 useMemo와 달리 최근 size개의 deps→결과를 보관합니다.
+// 필터를 오가는 것처럼 이전 deps로 돌아가면 factory를 다시 실행하지 않고 보관한 결과를 돌려줍니다.
+// size와 equals는 처음 렌더링할 때의 값으로 캐시를 만듭니다.
+// deps가 바뀌지 않은 렌더링은 캐시를 거치지 않으므로, stats의 hits는 바뀐 deps를 캐시에서 찾은 횟수입니다.
+export function useMemoCache<T>(
+  factory: () => T,
+  deps: DependencyList,
+  { cache, ...options }: MemoCacheOptions<T> = {}
+): T {
+  const ownCache = useRef<LruCache<DependencyList, T> | null>(null);
+  const lastUsed = useRef<LastUsed<T> | null>(null);
+
+  if (cache === undefined && ownCache.current === null) {
+    ownCache.current = createLruCache(options);
+  }
+  const target = cache ?? ownCache.current!;
+  const last = lastUsed.current;
+  const unchanged = last !== null && (options.equals ?? shallowEquals)(last.deps, deps);
+  const cached = unchanged ? { value: last.value } : target.get(deps);
+
+  let lint: DepsLintState | undefined;
+  if (import.meta.env.DEV && isDepsLintingEnabled()) {
+    lint = lintDeps("useMemoCache", lastUsed.current?.lint, lastUsed.current?.deps ?? null, deps, cached === undefined);
+  }
+
+  if (cached !== undefined) {
+    lastUsed.current = { deps, value: cached.value, lint };
+    return cached.value;
+  }
+
+  if (import.meta.env.DEV && isRenderTracingEnabled()) {
+    traceRender("useMemoCache", undefined, lastUsed.current?.deps ?? null, deps);
+  }
+  const value = import.meta.env.DEV && lint ? runLintedFactory("useMemoCache", lint, factory, deps) : factory();
+  target.set(deps, value);
+  lastUsed.current = { deps, value, lint };
+  return value;
+}
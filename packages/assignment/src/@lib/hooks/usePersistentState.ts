@@ -0,0 +1,103 @@
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+import { deepEquals } from "../equalities";
+import {
+  PersistentStorage,
+  VersionedStorageOptions,
+  getWebStorage,
+  readPersisted,
+  writePersisted,
+} from "../storage";
+import { useCallback } from "./useCallback";
+import { useRef } from "./useRef";
+
+export interface PersistentStateOptions<T> extends VersionedStorageOptions<T> {
+  // 저장할 곳 (기본값: localStorage)
+  storage?: PersistentStorage;
+}
+
+interface Persisted<T> {
+  key: string;
+  value: T;
+}
+
+// usePersistentState 훅은 useState처럼 사용하면서 값을 storage에 저장합니다.
+//    - 처음 렌더링할 때 저장된 값을 읽고, 버전이 낮다면 migrate로 바꿔서 다시 저장한다.
+//    - 저장된 값과 deepEquals로 같다면 저장하지 않는다.
+//    - 다른 탭(또는 같은 storage를 쓰는 다른 컴포넌트)에서 값이 바뀌면 따라서 바뀐다.
+//    - storage에 저장하지 못하면(저장 공간 부족 등) 메모리의 상태만 사용한다.
+export function usePersistentState<T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: PersistentStateOptions<T> = {}
+): [T, Dispatch<SetStateAction<T>>] {
+  const storage = options.storage ?? getWebStorage("local");
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // 마지막으로 storage와 맞춘 값. 같은 값을 다시 저장하지 않기 위해 사용한다.
+  const persisted = useRef<Persisted<T> | null>(null);
+
+  const read = (): T => {
+    const stored = readPersisted(storage, key, optionsRef.current);
+    if (stored !== undefined) {
+      // 마이그레이션한 값은 저장된 값과 다르므로, 아래 effect에서 다시 저장된다.
+      persisted.current = stored.migrated ? null : { key, value: stored.value };
+      return stored.value;
+    }
+    // 저장된 값이 없다면 초기값은 바뀌기 전까지 저장하지 않는다.
+    const value = typeof initialValue === "function" ? (initialValue as () => T)() : initialValue;
+    persisted.current = { key, value };
+    return value;
+  };
+
+  const [state, setState] = useState<Persisted<T>>(() => ({ key, value: read() }));
+
+  // key가 바뀌면 새 key의 값을 읽는다.
+  let current = state;
+  if (state.key !== key) {
+    current = { key, value: read() };
+    setState(current);
+  }
+
+  useEffect(() => {
+    if (
+      persisted.current !== null &&
+      persisted.current.key === current.key &&
+      deepEquals(persisted.current.value, current.value)
+    ) {
+      return;
+    }
+    // 저장하지 못해도 같은 값을 다시 저장하려고 하지 않는다. 상태는 메모리에 그대로 남는다.
+    persisted.current = current;
+    writePersisted(storage, current.key, current.value, optionsRef.current);
+  }, [storage, current]);
+
+  useEffect(() => {
+    return storage.subscribe?.(key, () => {
+      const stored = readPersisted(storage, key, optionsRef.current);
+      // 직접 저장한 값을 다시 알려준 경우라면 상태를 건드리지 않는다. (불필요한 렌더링 방지)
+      if (
+        stored === undefined ||
+        (persisted.current !== null && persisted.current.key === key && deepEquals(persisted.current.value, stored.value))
+      ) {
+        return;
+      }
+      setState((prev) => {
+        if (prev.key !== key || deepEquals(prev.value, stored.value)) {
+          return prev;
+        }
+        persisted.current = { key, value: stored.value };
+        return { key, value: stored.value };
+      });
+    });
+  }, [storage, key]);
+
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>((action) => {
+    setState((prev) => ({
+      key: prev.key,
+      value: typeof action === "function" ? (action as (prevState: T) => T)(prev.value) : action,
+    }));
+  }, []);
+
+  return [current.value, setValue];
+}
@@ -1,4 +1,8 @@
+import { useState } from "react";
+
+// useRef 훅은 렌더링 사이에 같은 { current } 객체를 유지합니다.
+// useState의 초기값으로 객체를 한 번만 만들고, setter는 사용하지 않으므로 값을 바꿔도 리렌더링되지 않습니다.
 export function useRef<T>(initialValue: T): { current: T } {
-  // React의 useState를 이용해서 만들어보세요.
-  return { current: initialValue };
+  const [ref] = useState(() => ({ current: initialValue }));
+  return ref;
 }
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { SearchEngine, SearchHit, tokenize } from "../search";
+import { useMemoCache } from "./useMemoCache";
+import { useRef } from "./useRef";
+
+export interface UseSearchOptions {
+  // 돌려줄 최대 결과 수 (기본값: 제한 없음)
+  limit?: number;
+  // sync 모드에서 보관할 최근 검색 결과 수 (기본값: 20)
+  cacheSize?: number;
+}
+
+export interface SearchResult<T> {
+  hits: SearchHit<T>[];
+  // Worker의 결과를 기다리는 중이라면 true. 기다리는 동안 hits는 이전 결과를 유지한다.
+  isSearching: boolean;
+}
+
+interface Settled<T> {
+  engine: SearchEngine<T>;
+  query: string;
+  limit: number | undefined;
+  hits: SearchHit<T>[];
+}
+
+interface Shown<T> {
+  engine: SearchEngine<T>;
+  hits: SearchHit<T>[];
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// useSearch 훅은 검색 엔진으로 query를 검색한 결과를 돌려줍니다.
+//    - sync 모드에서는 렌더링 중에 바로 검색하고, 최근 검색 결과를 보관해서 같은 검색어로 돌아오면 다시 검색하지 않는다.
+//    - worker 모드에서는 Worker의 결과가 도착하면 다시 렌더링한다. query가 바뀌면 이전 검색은 abort한다.
+//      기다리는 동안에는 마지막으로 돌려준 결과(빈 검색어의 전체 목록 포함)를 그대로 돌려준다.
+//    - Worker가 실패하면 메인 스레드에서 검색한 결과를 사용한다.
+export function useSearch<T>(
+  engine: SearchEngine<T>,
+  query: string,
+  { limit, cacheSize = 20 }: UseSearchOptions = {}
+): SearchResult<T> {
+  // 검색어가 비어 있으면 Worker를 기다리지 않고 모든 항목을 돌려준다.
+  const isSync = engine.mode === "sync" || tokenize(query).length === 0;
+  const syncHits = useMemoCache(
+    () => (isSync ? engine.searchSync(query, { limit }) : null),
+    [engine, query, limit],
+    { size: cacheSize }
+  );
+  const [settled, setSettled] = useState<Settled<T> | null>(null);
+  // 마지막으로 돌려준 검색이 끝난 결과. Worker를 기다리는 동안 목록이 비지 않도록 사용한다.
+  const shown = useRef<Shown<T> | null>(null);
+
+  useEffect(() => {
+    if (isSync) {
+      return;
+    }
+    const controller = new AbortController();
+    engine.search(query, { limit, signal: controller.signal }).then(
+      (hits) => setSettled({ engine, query, limit, hits }),
+      (error: unknown) => {
+        if (!controller.signal.aborted && !isAbortError(error)) {
+          setSettled({ engine, query, limit, hits: engine.searchSync(query, { limit }) });
+        }
+      }
+    );
+    return () => controller.abort();
+  }, [engine, query, limit, isSync]);
+
+  if (syncHits !== null) {
+    shown.current = { engine, hits: syncHits };
+    return { hits: syncHits, isSearching: false };
+  }
+  if (settled?.engine === engine && settled.query === query && settled.limit === limit) {
+    shown.current = { engine, hits: settled.hits };
+    return { hits: settled.hits, isSearching: false };
+  }
+  return { hits: shown.current?.engine === engine ? shown.current.hits : [], isSearching: true };
+}
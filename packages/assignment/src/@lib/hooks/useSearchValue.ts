@@ -0,0 +1,36 @@
+import { useDeferredValue } from "react";
+import { TimingOptions } from "../timing";
+import { useDebouncedValue } from "./useDebouncedValue";
+
+// 검색어를 결과에 반영하는 방식
+//    - deferred: useDeferredValue로 입력을 먼저 그리고, 결과는 React가 여유 있을 때 다시 그린다.
+//    - debounce: 입력이 delay 동안 멈추면 반영한다.
+//    - immediate: 바로 반영한다.
+export type SearchMode = "deferred" | "debounce" | "immediate";
+
+export interface SearchValueOptions extends TimingOptions {
+  mode?: SearchMode;
+  // debounce 모드에서 기다릴 시간(ms) (기본값: 300)
+  delay?: number;
+}
+
+export interface SearchValue<T> {
+  // 결과를 계산할 때 사용할 값
+  value: T;
+  // 입력한 값이 아직 결과에 반영되지 않았다면 true. 이전 결과를 보여주는 중이라는 표시에 사용한다.
+  isStale: boolean;
+}
+
+// useSearchValue 훅은 큰 목록의 검색처럼 결과 계산이 무거울 때, 입력은 바로 반영하고 결과는 늦게 계산하도록 합니다.
+// mode는 컴포넌트가 마운트된 동안 바꾸지 않는 것을 전제로 합니다.
+export function useSearchValue<T>(
+  value: T,
+  { mode = "deferred", delay = 300, leading, trailing }: SearchValueOptions = {}
+): SearchValue<T> {
+  // 사용하지 않는 방식의 훅에는 바뀌지 않는 값을 넘겨서 추가 렌더링이 생기지 않게 한다.
+  const deferred = useDeferredValue(mode === "deferred" ? value : undefined);
+  const debounced = useDebouncedValue(mode === "debounce" ? value : undefined, delay, { leading, trailing });
+
+  const current = (mode === "deferred" ? deferred : mode === "debounce" ? debounced : value) as T;
+  return { value: current, isStale: !Object.is(current, value) };
+}
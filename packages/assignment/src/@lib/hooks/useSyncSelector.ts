@@ -0,0 +1,25 @@
+import { useSyncExternalStore } from "react";
+import { Equals } from "../equalities";
+import { useRef } from "./useRef";
+
+// 외부 저장소에서 selector로 고른 값만 구독하는 공통 구현.
+// equals(이전 결과, 다음 결과)가 true라면 이전 결과를 그대로 돌려줘서 다시 렌더링하지 않는다.
+export function useSyncSelector<T, S>(
+  subscribe: (listener: () => void) => () => void,
+  getSnapshot: () => T,
+  selector: (state: T) => S,
+  equals: Equals
+): S {
+  const selected = useRef<{ value: S } | null>(null);
+
+  const getSelection = () => {
+    const next = selector(getSnapshot());
+    if (selected.current !== null && equals(selected.current.value, next)) {
+      return selected.current.value;
+    }
+    selected.current = { value: next };
+    return next;
+  };
+
+  return useSyncExternalStore(subscribe, getSelection, getSelection);
+}
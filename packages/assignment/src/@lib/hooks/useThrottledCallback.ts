@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { Scheduled, TimingOptions, throttle } from "../timing";
+import { useEvent } from "./useEvent";
+import { useMemo } from "./useMemo";
+
+// useThrottledCallback 훅은 delay마다 최대 한 번만 callback을 실행하는 함수를 돌려줍니다.
+//    - 돌려준 함수는 delay와 옵션이 바뀌기 전까지 같은 참조이고, 항상 최신 callback을 실행한다.
+//    - cancel, flush로 기다리는 호출을 취소하거나 바로 실행할 수 있다.
+//    - delay나 옵션이 바뀌거나 언마운트되면 기다리던 호출을 취소한다.
+export function useThrottledCallback<A extends unknown[]>(
+  callback: (...args: A) => void,
+  delay: number,
+  { leading = true, trailing = true }: TimingOptions = {}
+): Scheduled<A> {
+  const handler = useEvent(callback);
+  const throttled = useMemo(
+    () => throttle(handler, delay, { leading, trailing }),
+    [handler, delay, leading, trailing]
+  );
+
+  useEffect(() => () => throttled.cancel(), [throttled]);
+
+  return throttled;
+}
@@ -0,0 +1,38 @@
+import { DependencyList } from "react";
+import { DepsLintState, isDepsLintingEnabled, lintDeps, runLintedFactory } from "../debug/depsLinting";
+import { TraceSource, isRenderTracingEnabled, traceRender } from "../debug/renderTracing";
+import { useRef } from "./useRef";
+
+interface Memoized<T> {
+  deps: DependencyList;
+  value: T;
+  lint?: DepsLintState;
+}
+
+// useMemo 계열 훅의 공통 구현. 렌더링 원인 기록에 어떤 훅인지 남기기 위해 source를 받는다.
+export function useTracedMemo<T>(
+  source: TraceSource,
+  factory: () => T,
+  deps: DependencyList,
+  equals: (prevDeps: DependencyList, nextDeps: DependencyList) => boolean
+): T {
+  const memoized = useRef<Memoized<T> | null>(null);
+  const changed = memoized.current === null || !equals(memoized.current.deps, deps);
+
+  let lint: DepsLintState | undefined;
+  if (import.meta.env.DEV && isDepsLintingEnabled()) {
+    lint = lintDeps(source, memoized.current?.lint, memoized.current?.deps ?? null, deps, changed);
+  }
+
+  if (changed) {
+    if (import.meta.env.DEV && isRenderTracingEnabled()) {
+      traceRender(source, undefined, memoized.current?.deps ?? null, deps);
+    }
+    const value = import.meta.env.DEV && lint ? runLintedFactory(source, lint, factory, deps) : factory();
+    memoized.current = { deps, value, lint };
+  } else if (lint) {
+    memoized.current!.lint = lint;
+  }
+
+  return memoized.current!.value;
+}
@@ -1,3 +1,14 @@
 export * from "./equalities";
 export * from "./hooks";
 export * from "./hocs";
+export * from "./debug";
+export * from "./profiler";
+export * from "./context";
+export * from "./store";
+export * from "./history";
+export * from "./storage";
+export * from "./cache";
+export * from "./virtual";
+export * from "./timing";
+export * from "./search";
+export * from "./fixtures";
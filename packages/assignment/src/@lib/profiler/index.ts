@@ -0,0 +1,3 @@
+export * from "./renderRegistry";
+export * from "./useRenderTracker";
+export * from "./withRenderTracking";
@@ -0,0 +1,149 @@
+// 컴포넌트별 렌더링(커밋) 기록을 모아두는 저장소입니다.
+// useRenderTracker, withRenderTracking이 기록하고, 테스트에서는 expectRenders로 확인합니다.
+
+export interface CommitRecord {
+  // 커밋 시각 (Date.now())
+  timestamp: number;
+  // 렌더링 시작부터 커밋까지 걸린 시간 (ms)
+  duration: number;
+}
+
+export interface RenderStats {
+  count: number;
+  totalDuration: number;
+  averageDuration: number;
+  maxDuration: number;
+  // 최근 커밋들 (오래된 것부터, 최대 commitLimit개)
+  commits: CommitRecord[];
+}
+
+export interface RenderReport {
+  createdAt: number;
+  components: Record<string, RenderStats>;
+}
+
+export interface RenderCountDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RenderRegistry {
+  // false라면 record를 무시하고, useRenderTracker와 withRenderTracking도 측정하지 않는다.
+  readonly enabled: boolean;
+  record(name: string, commit: CommitRecord): void;
+  // 마지막 reset 이후 렌더링 횟수
+  count(name: string): number;
+  counts(): Record<string, number>;
+  get(name: string): RenderStats | undefined;
+  reset(): void;
+  toJSON(): RenderReport;
+}
+
+export interface RenderRegistryOptions {
+  // 기록할지 여부 (기본값: 개발 빌드에서만). 프로덕션에서 측정하려면 true를 넘긴다.
+  enabled?: boolean;
+  // 컴포넌트마다 보관할 최근 커밋 수 (기본값: 100). 횟수와 시간 합계는 보관 수와 관계없이 모두 센다.
+  commitLimit?: number;
+}
+
+interface ComponentRecord {
+  count: number;
+  totalDuration: number;
+  maxDuration: number;
+  // 최근 commitLimit개의 커밋 (오래된 것부터)
+  commits: CommitRecord[];
+}
+
+function toStats({ count, totalDuration, maxDuration, commits }: ComponentRecord): RenderStats {
+  return {
+    count,
+    totalDuration,
+    averageDuration: count > 0 ? totalDuration / count : 0,
+    maxDuration,
+    commits: [...commits],
+  };
+}
+
+export function createRenderRegistry({
+  enabled = import.meta.env.DEV,
+  commitLimit = 100,
+}: RenderRegistryOptions = {}): RenderRegistry {
+  const records = new Map<string, ComponentRecord>();
+
+  return {
+    enabled,
+    record(name, commit) {
+      if (!enabled) {
+        return;
+      }
+      let record = records.get(name);
+      if (!record) {
+        record = { count: 0, totalDuration: 0, maxDuration: 0, commits: [] };
+        records.set(name, record);
+      }
+      record.count++;
+      record.totalDuration += commit.duration;
+      record.maxDuration = Math.max(record.maxDuration, commit.duration);
+      record.commits.push(commit);
+      if (record.commits.length > commitLimit) {
+        record.commits.splice(0, record.commits.length - commitLimit);
+      }
+    },
+    count(name) {
+      return records.get(name)?.count ?? 0;
+    },
+    counts() {
+      return Object.fromEntries([...records].map(([name, record]) => [name, record.count]));
+    },
+    get(name) {
+      const record = records.get(name);
+      return record ? toStats(record) : undefined;
+    },
+    reset() {
+      records.clear();
+    },
+    toJSON() {
+      return {
+        createdAt: Date.now(),
+        components: Object.fromEntries([...records].map(([name, record]) => [name, toStats(record)])),
+      };
+    },
+  };
+}
+
+// 별도 저장소를 넘기지 않으면 사용하는 기본 저장소. 개발 빌드에서만 기록한다.
+export const renderRegistry = createRenderRegistry();
+
+// expectRenders 함수는 마지막 확인(또는 reset) 이후의 렌더링 횟수가 기대값과 같은지 확인하고 기록을 비웁니다.
+// 기대값에 적은 컴포넌트만 확인하며, 다르면 모든 차이를 담은 에러를 던집니다.
+// 예: expectRenders({ Header: 1, ItemList: 0 })
+export function expectRenders(
+  expected: Record<string, number>,
+  registry: RenderRegistry = renderRegistry
+) {
+  const mismatches = Object.entries(expected)
+    .filter(([name, count]) => registry.count(name) !== count)
+    .map(([name, count]) => `  ${name}: expected ${count}, received ${registry.count(name)}`);
+
+  registry.reset();
+
+  if (mismatches.length > 0) {
+    throw new Error(`Unexpected render counts\n${mismatches.join("\n")}`);
+  }
+}
+
+// compareRenderReports 함수는 최적화 전후의 리포트를 컴포넌트별 렌더링 횟수로 비교합니다.
+export function compareRenderReports(
+  before: RenderReport,
+  after: RenderReport
+): Record<string, RenderCountDelta> {
+  const names = new Set([...Object.keys(before.components), ...Object.keys(after.components)]);
+  return Object.fromEntries(
+    [...names].map((name) => {
+      const beforeCount = before.components[name]?.count ?? 0;
+      const afterCount = after.components[name]?.count ?? 0;
+      return [name, { before: beforeCount, after: afterCount, delta: afterCount - beforeCount }];
+    })
+  );
+}
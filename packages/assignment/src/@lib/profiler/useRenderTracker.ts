@@ -0,0 +1,23 @@
+import { useLayoutEffect } from "react";
+import { useRef } from "../hooks";
+import { RenderRegistry, renderRegistry } from "./renderRegistry";
+
+// useRenderTracker 훅은 컴포넌트가 커밋될 때마다 렌더링 횟수와 걸린 시간을 기록합니다.
+// 렌더 단계가 아니라 커밋 기준으로 세므로, StrictMode의 이중 호출이나 버려진 렌더링은 세지 않습니다.
+// registry가 꺼져 있다면(기본 저장소는 프로덕션 빌드에서) 아무것도 측정하지 않습니다.
+export function useRenderTracker(name: string, registry: RenderRegistry = renderRegistry) {
+  // 아직 커밋되지 않은 렌더링의 시작 시각
+  const pending = useRef<number | null>(null);
+  pending.current = registry.enabled ? performance.now() : null;
+
+  useLayoutEffect(() => {
+    if (pending.current === null) {
+      return;
+    }
+    registry.record(name, {
+      timestamp: Date.now(),
+      duration: performance.now() - pending.current,
+    });
+    pending.current = null;
+  });
+}
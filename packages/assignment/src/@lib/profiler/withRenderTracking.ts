@@ -0,0 +1,26 @@
+import { ComponentType, Profiler, ProfilerOnRenderCallback, createElement } from "react";
+import { getDisplayName } from "../hocs";
+import { RenderRegistry, renderRegistry } from "./renderRegistry";
+
+// withRenderTracking HOC는 컴포넌트를 React Profiler로 감싸서 커밋마다 기록합니다.
+// Profiler 기준이므로 하위 컴포넌트의 상태 변경으로 인한 커밋도 함께 기록됩니다.
+// registry가 꺼져 있다면 감싸지 않고 Component를 그대로 돌려줍니다.
+export function withRenderTracking<P extends object>(
+  Component: ComponentType<P>,
+  name: string = getDisplayName(Component),
+  registry: RenderRegistry = renderRegistry
+): ComponentType<P> {
+  if (!registry.enabled) {
+    return Component;
+  }
+
+  const onRender: ProfilerOnRenderCallback = (_id, _phase, actualDuration) => {
+    registry.record(name, { timestamp: Date.now(), duration: actualDuration });
+  };
+
+  const TrackedComponent = (props: P) =>
+    createElement(Profiler, { id: name, onRender }, createElement(Component, props));
+  TrackedComponent.displayName = `Tracked(${name})`;
+
+  return TrackedComponent;
+}
@@ -0,0 +1,55 @@
+const SYLLABLE_START = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+// 초성 하나에 딸린 음절 수 (중성 21 × 종성 28)
+const SYLLABLES_PER_CHOSEONG = 21 * 28;
+
+const CHOSEONG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+];
+
+const CHOSEONG_SET = new Set(CHOSEONG);
+
+// 초성으로 쓸 수 있는 자음(ㄱ~ㅎ)인지 확인한다.
+export function isChoseong(char: string): boolean {
+  return CHOSEONG_SET.has(char);
+}
+
+// getChoseong 함수는 한글 음절을 초성으로 바꿉니다. 한글 음절이 아닌 글자는 그대로 둡니다.
+//    getChoseong("상품 12") === "ㅅㅍ 12"
+export function getChoseong(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    result +=
+      code >= SYLLABLE_START && code <= SYLLABLE_END
+        ? CHOSEONG[Math.floor((code - SYLLABLE_START) / SYLLABLES_PER_CHOSEONG)]
+        : char;
+  }
+  return result;
+}
+
+export function hasChoseong(text: string): boolean {
+  for (const char of text) {
+    if (isChoseong(char)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// matchesChoseongPrefix 함수는 초성이 섞인 검색어가 token의 앞부분과 맞는지 확인합니다.
+// 검색어의 초성은 같은 초성의 음절과, 나머지 글자는 같은 글자와 맞습니다.
+//    matchesChoseongPrefix("상품", "ㅅㅍ") === true
+//    matchesChoseongPrefix("상품", "상ㅍ") === true
+export function matchesChoseongPrefix(token: string, term: string): boolean {
+  if (term.length > token.length) {
+    return false;
+  }
+  for (let i = 0; i < term.length; i++) {
+    if (term[i] !== token[i] && !(isChoseong(term[i]) && getChoseong(token[i]) === term[i])) {
+      return false;
+    }
+  }
+  return true;
+}
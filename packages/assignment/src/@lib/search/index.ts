@@ -0,0 +1,4 @@
+export * from "./hangul";
+export * from "./searchIndex";
+export * from "./searchEngine";
+export * from "./workerProtocol";
@@ -0,0 +1,27 @@
+import { SearchIndex, createSearchIndex } from "./searchIndex";
+import { SearchWorkerRequest, SearchWorkerResponse } from "./workerProtocol";
+
+// 인덱스는 build 메시지를 받을 때 한 번 만들고, 이후 search 메시지는 같은 인덱스로 처리한다.
+let index: SearchIndex | null = null;
+
+function respond(response: SearchWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener("message", (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "build") {
+    index = createSearchIndex(request.documents, request.options);
+    return;
+  }
+
+  if (index === null) {
+    respond({ type: "error", id: request.id, message: "Search index has not been built" });
+    return;
+  }
+  try {
+    respond({ type: "result", id: request.id, matches: index.search(request.query, { limit: request.limit }) });
+  } catch (error) {
+    respond({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
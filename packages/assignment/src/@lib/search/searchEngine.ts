@@ -0,0 +1,174 @@
+import {
+  MatchRange,
+  SearchDocument,
+  SearchFields,
+  SearchIndex,
+  SearchMatch,
+  SearchOptions,
+  createSearchIndex,
+  tokenize,
+} from "./searchIndex";
+import { SearchWorkerRequest, SearchWorkerResponse } from "./workerProtocol";
+
+export interface SearchEngineOptions<T> {
+  // 검색할 필드와 가중치. 필드 값은 문자열로 바꿔서 색인한다.
+  fields: Partial<Record<keyof T & string, number>>;
+  // 오타를 허용할지 여부 (기본값: true)
+  fuzzy?: boolean;
+  // Web Worker에서 검색할지 여부 (기본값: true). Worker를 직접 만드는 함수를 넘길 수도 있다.
+  // true라도 Worker가 없는 환경(테스트의 jsdom 등)에서는 메인 스레드에서 검색한다.
+  worker?: boolean | (() => Worker);
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  ranges: Partial<Record<keyof T & string, MatchRange[]>>;
+}
+
+export interface AsyncSearchOptions extends SearchOptions {
+  // abort되면 결과를 기다리지 않고 AbortError로 reject한다.
+  signal?: AbortSignal;
+}
+
+export type SearchEngineMode = "worker" | "sync";
+
+export interface SearchEngine<T> {
+  readonly mode: SearchEngineMode;
+  readonly items: readonly T[];
+  // 메인 스레드에서 바로 검색한다. 처음 호출할 때 인덱스를 만든다.
+  searchSync(query: string, options?: SearchOptions): SearchHit<T>[];
+  // mode가 worker라면 Worker에서, 아니라면 메인 스레드에서 검색한다.
+  search(query: string, options?: AsyncSearchOptions): Promise<SearchHit<T>[]>;
+  // Worker를 종료하고 기다리는 검색을 모두 reject한다. 이후 search를 호출하면 Worker를 다시 만든다.
+  dispose(): void;
+}
+
+interface Pending {
+  resolve(matches: SearchMatch[]): void;
+  reject(error: unknown): void;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Search was aborted", "AbortError");
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL("./search.worker.ts", import.meta.url), { type: "module" });
+}
+
+// createSearchEngine 함수는 items의 역색인을 한 번 만들고, 검색어로 items를 찾는 검색 엔진을 만듭니다.
+//    - 결과는 점수가 높은 순서이고, 필드별로 검색어와 맞는 위치(ranges)를 함께 돌려준다.
+//    - 색인과 검색은 Web Worker에서 하고, Worker가 없다면 메인 스레드에서 한다.
+//    - items가 바뀌면 검색 엔진을 새로 만들어야 한다.
+export function createSearchEngine<T>(
+  items: readonly T[],
+  { fields, fuzzy = true, worker = true }: SearchEngineOptions<T>
+): SearchEngine<T> {
+  const indexOptions = { fields: fields as SearchFields, fuzzy };
+  const documents: SearchDocument[] = items.map((item) => {
+    const document: SearchDocument = {};
+    for (const field of Object.keys(fields)) {
+      const value = item[field as keyof T];
+      document[field] = value === null || value === undefined ? "" : String(value);
+    }
+    return document;
+  });
+
+  const mode: SearchEngineMode =
+    typeof worker === "function" || (worker && typeof Worker !== "undefined") ? "worker" : "sync";
+
+  const toHits = (matches: SearchMatch[]): SearchHit<T>[] =>
+    matches.map(({ index, score, ranges }) => ({ item: items[index], score, ranges: ranges as SearchHit<T>["ranges"] }));
+
+  let localIndex: SearchIndex | null = null;
+
+  const searchSync = (query: string, options: SearchOptions = {}) => {
+    // 검색어가 비어 있으면 인덱스를 만들지 않고 모든 items를 돌려준다.
+    if (tokenize(query).length === 0) {
+      return items.slice(0, options.limit).map((item) => ({ item, score: 0, ranges: {} }));
+    }
+    localIndex ??= createSearchIndex(documents, indexOptions);
+    return toHits(localIndex.search(query, options));
+  };
+
+  let instance: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, Pending>();
+
+  const rejectAll = (error: unknown) => {
+    for (const { reject } of pending.values()) {
+      reject(error);
+    }
+    pending.clear();
+  };
+
+  const getWorker = (): Worker => {
+    if (instance !== null) {
+      return instance;
+    }
+    const created = typeof worker === "function" ? worker() : createDefaultWorker();
+    created.addEventListener("message", (event: MessageEvent<SearchWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) {
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === "result") {
+        request.resolve(response.matches);
+      } else {
+        request.reject(new Error(response.message));
+      }
+    });
+    created.addEventListener("error", (event) => {
+      rejectAll(new Error(`Search worker failed: ${event.message}`));
+    });
+    const build: SearchWorkerRequest = { type: "build", documents, options: indexOptions };
+    created.postMessage(build);
+    instance = created;
+    return created;
+  };
+
+  const search = (query: string, { limit, signal }: AsyncSearchOptions = {}): Promise<SearchHit<T>[]> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    if (mode === "sync" || tokenize(query).length === 0) {
+      return Promise.resolve(searchSync(query, { limit }));
+    }
+
+    const id = nextId++;
+    return new Promise<SearchMatch[]>((resolve, reject) => {
+      const onAbort = () => {
+        pending.delete(id);
+        reject(createAbortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      pending.set(id, {
+        resolve: (matches) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(matches);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+      const request: SearchWorkerRequest = { type: "search", id, query, limit };
+      getWorker().postMessage(request);
+    }).then(toHits);
+  };
+
+  return {
+    mode,
+    items,
+    searchSync,
+    search,
+    dispose() {
+      instance?.terminate();
+      instance = null;
+      rejectAll(createAbortError());
+    },
+  };
+}
@@ -0,0 +1,278 @@
+import { hasChoseong, matchesChoseongPrefix } from "./hangul";
+
+// 검색할 필드와 가중치. 가중치가 높은 필드에서 맞을수록 앞에 온다.
+export type SearchFields = Record<string, number>;
+
+// [시작, 끝) 위치
+export type MatchRange = [start: number, end: number];
+
+export interface SearchIndexOptions {
+  fields: SearchFields;
+  // 오타를 허용할지 여부 (기본값: true). 숫자로만 된 검색어에는 사용하지 않는다.
+  fuzzy?: boolean;
+}
+
+export interface SearchOptions {
+  // 돌려줄 최대 결과 수 (기본값: 제한 없음)
+  limit?: number;
+}
+
+export interface SearchMatch {
+  // 문서 목록에서의 인덱스
+  index: number;
+  score: number;
+  // 필드별로 검색어와 맞는 위치. 겹치지 않고 정렬되어 있다.
+  ranges: Record<string, MatchRange[]>;
+}
+
+export interface SearchIndex {
+  readonly size: number;
+  search(query: string, options?: SearchOptions): SearchMatch[];
+}
+
+// 인덱스를 만들 문서. 필드 이름 → 문자열
+export type SearchDocument = Record<string, string>;
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+interface Posting {
+  index: number;
+  field: string;
+  start: number;
+}
+
+type MatchKind = "exact" | "prefix" | "choseong" | "fuzzy";
+
+interface TermMatch {
+  token: string;
+  kind: MatchKind;
+  // 0 ~ 1. 검색어가 token과 얼마나 잘 맞는지
+  quality: number;
+  // token에서 강조할 길이
+  length: number;
+}
+
+const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 3,
+  prefix: 2,
+  choseong: 1.5,
+  fuzzy: 1,
+};
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// tokenize 함수는 글자와 숫자가 이어진 부분을 소문자 token으로 나눕니다.
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    tokens.push({ text: match[0], start: match.index ?? 0 });
+  }
+  return tokens;
+}
+
+// 검색어 길이에 따라 허용하는 오타 수. 짧은 검색어에 오타를 허용하면 엉뚱한 결과가 너무 많아진다.
+function getMaxEdits(term: string): number {
+  if (/^\p{N}+$/u.test(term)) {
+    return 0;
+  }
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+// a와 b의 편집 거리가 maxEdits를 넘으면 maxEdits + 1을 돌려준다.
+function boundedEditDistance(a: string, b: string, maxEdits: number): number {
+  if (Math.abs(a.length - b.length) > maxEdits) {
+    return maxEdits + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxEdits) {
+      return maxEdits + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 겹치거나 맞닿은 범위를 합친다.
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+// createSearchIndex 함수는 문서들의 역색인을 한 번 만들고, 검색어로 문서를 찾습니다.
+//    - 검색어를 token으로 나누고, 모든 token과 맞는 문서만 돌려준다. 검색어가 비어 있으면 모든 문서를 돌려준다.
+//    - token은 정확히 같거나(exact), 앞부분이 같거나(prefix), 초성이 같거나(choseong), 오타 범위 안이면(fuzzy) 맞는다.
+//    - 맞는 방식과 필드 가중치로 점수를 매기고, 점수가 높은 순서(같으면 문서 순서)로 돌려준다.
+export function createSearchIndex(
+  documents: SearchDocument[],
+  { fields, fuzzy = true }: SearchIndexOptions
+): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+
+  documents.forEach((document, index) => {
+    for (const field of Object.keys(fields)) {
+      for (const token of tokenize(document[field] ?? "")) {
+        let list = postings.get(token.text);
+        if (!list) {
+          list = [];
+          postings.set(token.text, list);
+        }
+        list.push({ index, field, start: token.start });
+      }
+    }
+  });
+
+  // 앞부분 검색을 위해 정렬해 둔 token 목록
+  const vocabulary = [...postings.keys()].sort();
+
+  const lowerBound = (term: string) => {
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (vocabulary[middle] < term) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  const matchTerm = (term: string): TermMatch[] => {
+    const matches = new Map<string, TermMatch>();
+    const add = (match: TermMatch) => {
+      const existing = matches.get(match.token);
+      if (!existing || MATCH_SCORES[match.kind] * match.quality > MATCH_SCORES[existing.kind] * existing.quality) {
+        matches.set(match.token, match);
+      }
+    };
+
+    for (let i = lowerBound(term); i < vocabulary.length && vocabulary[i].startsWith(term); i++) {
+      const token = vocabulary[i];
+      add(
+        token === term
+          ? { token, kind: "exact", quality: 1, length: token.length }
+          : { token, kind: "prefix", quality: term.length / token.length, length: term.length }
+      );
+    }
+
+    if (hasChoseong(term)) {
+      for (const token of vocabulary) {
+        if (matchesChoseongPrefix(token, term)) {
+          add({ token, kind: "choseong", quality: term.length / token.length, length: term.length });
+        }
+      }
+    }
+
+    const maxEdits = fuzzy ? getMaxEdits(term) : 0;
+    if (maxEdits > 0) {
+      for (const token of vocabulary) {
+        const edits = boundedEditDistance(term, token, maxEdits);
+        if (edits > 0 && edits <= maxEdits) {
+          add({ token, kind: "fuzzy", quality: 1 - edits / (term.length + 1), length: token.length });
+        }
+      }
+    }
+
+    return [...matches.values()];
+  };
+
+  return {
+    size: documents.length,
+    search(query, { limit = Infinity } = {}) {
+      const terms = [...new Set(tokenize(query).map((token) => token.text))];
+      // 검색어가 비어 있으면 모든 문서를 원래 순서대로 돌려준다.
+      if (terms.length === 0) {
+        return documents.slice(0, limit).map((_, index) => ({ index, score: 0, ranges: {} }));
+      }
+
+      let results: Map<number, SearchMatch> | null = null;
+
+      for (const term of terms) {
+        // 문서별로 이 검색어의 필드별 최고 점수와 강조 위치를 모은다.
+        const termResults = new Map<number, { scores: Record<string, number>; ranges: Record<string, MatchRange[]> }>();
+
+        for (const match of matchTerm(term)) {
+          const score = MATCH_SCORES[match.kind] * match.quality;
+          for (const posting of postings.get(match.token) ?? []) {
+            if (results !== null && !results.has(posting.index)) {
+              continue;
+            }
+            let entry = termResults.get(posting.index);
+            if (!entry) {
+              entry = { scores: {}, ranges: {} };
+              termResults.set(posting.index, entry);
+            }
+            entry.scores[posting.field] = Math.max(entry.scores[posting.field] ?? 0, score);
+            (entry.ranges[posting.field] ??= []).push([posting.start, posting.start + match.length]);
+          }
+        }
+
+        const next = new Map<number, SearchMatch>();
+        for (const [index, entry] of termResults) {
+          const previous = results?.get(index) ?? { index, score: 0, ranges: {} };
+          let score = previous.score;
+          const ranges = { ...previous.ranges };
+          for (const field of Object.keys(entry.scores)) {
+            score += entry.scores[field] * fields[field];
+            ranges[field] = [...(ranges[field] ?? []), ...entry.ranges[field]];
+          }
+          next.set(index, { index, score, ranges });
+        }
+        results = next;
+      }
+
+      return [...results!.values()]
+        .map((result) => ({
+          ...result,
+          ranges: Object.fromEntries(
+            Object.entries(result.ranges).map(([field, ranges]) => [field, mergeRanges(ranges)])
+          ),
+        }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit);
+    },
+  };
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// splitHighlights 함수는 강조 위치를 기준으로 text를 나눠서, 맞는 부분을 표시할 수 있게 합니다.
+export function splitHighlights(text: string, ranges: MatchRange[] = []): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) {
+      parts.push({ text: text.slice(position, start), highlighted: false });
+    }
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), highlighted: false });
+  }
+  return parts;
+}
@@ -0,0 +1,11 @@
+import { SearchDocument, SearchIndexOptions, SearchMatch } from "./searchIndex";
+
+// 메인 스레드 → Worker. build로 인덱스를 한 번 만들고, search마다 id를 붙여서 보낸다.
+export type SearchWorkerRequest =
+  | { type: "build"; documents: SearchDocument[]; options: SearchIndexOptions }
+  | { type: "search"; id: number; query: string; limit?: number };
+
+// Worker → 메인 스레드. 요청과 같은 id로 응답한다.
+export type SearchWorkerResponse =
+  | { type: "result"; id: number; matches: SearchMatch[] }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,2 @@
+export * from "./persistentStorage";
+export * from "./queryStorage";
@@ -0,0 +1,190 @@
+// 상태를 저장할 수 있는 곳. localStorage, sessionStorage, 메모리(테스트용)를 같은 방식으로 다룬다.
+export interface PersistentStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  // 다른 탭이나 같은 저장소를 쓰는 다른 곳에서 key가 바뀌면 listener를 호출한다.
+  subscribe?(key: string, listener: () => void): () => void;
+}
+
+export interface MemoryStorage extends PersistentStorage {
+  clear(): void;
+}
+
+type Listeners = Map<string, Set<() => void>>;
+
+function addListener(listeners: Listeners, key: string, listener: () => void) {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+  return () => {
+    keyListeners.delete(listener);
+  };
+}
+
+function notify(listeners: Listeners, key: string) {
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+// createMemoryStorage 함수는 테스트에서 사용하는 메모리 저장소를 만듭니다.
+// 같은 저장소를 쓰는 곳끼리 변경을 알려주므로, 여러 탭 사이의 동기화를 흉내낼 수 있습니다.
+export function createMemoryStorage(initialItems: Record<string, string> = {}): MemoryStorage {
+  const items = new Map(Object.entries(initialItems));
+  const listeners: Listeners = new Map();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+      notify(listeners, key);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+      notify(listeners, key);
+    },
+    subscribe: (key, listener) => addListener(listeners, key, listener),
+    clear: () => {
+      const keys = [...items.keys()];
+      items.clear();
+      keys.forEach((key) => notify(listeners, key));
+    },
+  };
+}
+
+// createWebStorage 함수는 localStorage, sessionStorage를 감싼 저장소를 만듭니다.
+// 다른 탭의 변경은 storage 이벤트로, 같은 탭의 변경은 직접 구독자에게 알립니다.
+export function createWebStorage(storage: Storage): PersistentStorage {
+  const listeners: Listeners = new Map();
+
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => {
+      storage.setItem(key, value);
+      notify(listeners, key);
+    },
+    removeItem: (key) => {
+      storage.removeItem(key);
+      notify(listeners, key);
+    },
+    subscribe: (key, listener) => {
+      const removeListener = addListener(listeners, key, listener);
+      const handleStorage = (event: StorageEvent) => {
+        // key가 null이면 clear()가 호출된 것이다.
+        if (event.storageArea === storage && (event.key === key || event.key === null)) {
+          listener();
+        }
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => {
+        removeListener();
+        window.removeEventListener("storage", handleStorage);
+      };
+    },
+  };
+}
+
+const webStorages = new Map<"local" | "session", PersistentStorage>();
+
+// getWebStorage 함수는 localStorage, sessionStorage 저장소를 돌려줍니다. 같은 종류는 항상 같은 객체입니다.
+// 저장소에 접근할 수 없는 환경(쿠키를 막은 브라우저 등)에서는 메모리 저장소를 대신 돌려줍니다.
+export function getWebStorage(type: "local" | "session"): PersistentStorage {
+  let storage = webStorages.get(type);
+  if (!storage) {
+    try {
+      storage = createWebStorage(type === "local" ? window.localStorage : window.sessionStorage);
+    } catch {
+      storage = createMemoryStorage();
+    }
+    webStorages.set(type, storage);
+  }
+  return storage;
+}
+
+// version을 지정하면 값과 함께 저장되는 형태
+interface VersionedValue {
+  version: number;
+  value: unknown;
+}
+
+export interface VersionedStorageOptions<T> {
+  // 저장하는 값의 스키마 버전. 지정하지 않으면 값만 저장하고, 버전 0으로 취급한다.
+  version?: number;
+  // 저장된 값의 버전이 더 낮을 때 현재 스키마로 바꾼다. 없으면 낮은 버전의 값은 버린다.
+  migrate?: (value: unknown, fromVersion: number) => T;
+  serialize?: (value: unknown) => string;
+  deserialize?: (raw: string) => unknown;
+}
+
+function isVersionedValue(value: unknown): value is VersionedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as VersionedValue).version === "number" &&
+    "value" in value
+  );
+}
+
+export interface PersistedValue<T> {
+  value: T;
+  // 마이그레이션을 거쳤다면 true. 현재 버전으로 다시 저장해야 한다.
+  migrated: boolean;
+}
+
+// readPersisted 함수는 저장된 값을 읽고, 필요하면 마이그레이션합니다.
+// 값이 없거나, 읽을 수 없거나, 더 높은 버전이거나, 마이그레이션할 수 없다면 undefined를 돌려줍니다.
+export function readPersisted<T>(
+  storage: Pick<PersistentStorage, "getItem">,
+  key: string,
+  { version, migrate, deserialize = JSON.parse }: VersionedStorageOptions<T> = {}
+): PersistedValue<T> | undefined {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(key);
+  } catch {
+    return undefined;
+  }
+  if (raw === null) {
+    return undefined;
+  }
+
+  let stored: VersionedValue;
+  try {
+    const parsed = deserialize(raw);
+    stored = version !== undefined && isVersionedValue(parsed) ? parsed : { version: 0, value: parsed };
+  } catch {
+    return undefined;
+  }
+
+  const currentVersion = version ?? 0;
+  if (stored.version === currentVersion) {
+    return { value: stored.value as T, migrated: false };
+  }
+  if (stored.version > currentVersion || !migrate) {
+    return undefined;
+  }
+  try {
+    return { value: migrate(stored.value, stored.version), migrated: true };
+  } catch {
+    return undefined;
+  }
+}
+
+// writePersisted 함수는 값을 저장하고, 저장하지 못했다면 false를 돌려줍니다.
+// 저장 공간이 가득 찼거나(QuotaExceededError) 저장소를 쓸 수 없는 환경(SecurityError)이라도 예외를 던지지 않으므로,
+// 호출한 쪽은 메모리에 있는 상태를 그대로 사용하면 됩니다.
+export function writePersisted<T>(
+  storage: Pick<PersistentStorage, "setItem">,
+  key: string,
+  value: T,
+  { version, serialize = JSON.stringify }: VersionedStorageOptions<T> = {}
+): boolean {
+  try {
+    storage.setItem(key, serialize(version === undefined ? value : { version, value }));
+    return true;
+  } catch {
+    return false;
+  }
+}
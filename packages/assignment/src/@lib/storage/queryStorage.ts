@@ -0,0 +1,60 @@
+import { PersistentStorage } from "./persistentStorage";
+
+export interface QueryStorageOptions {
+  // 값을 바꿀 때 방문 기록을 새로 쌓을지(push), 현재 기록을 바꿀지(replace) (기본값: replace)
+  history?: "push" | "replace";
+}
+
+// URL은 하나뿐이므로 모든 query 저장소가 구독자를 함께 사용한다.
+const listeners = new Set<() => void>();
+
+function notifyAll() {
+  listeners.forEach((listener) => listener());
+}
+
+// createQueryStorage 함수는 URL의 query string을 저장소로 사용합니다.
+//    - key는 query 매개변수 이름이고, 빈 문자열을 저장하면 매개변수를 지운다.
+//    - 뒤로/앞으로 가기(popstate)나 같은 탭의 다른 query 저장소에서 바뀌면 구독자에게 알린다.
+// 값을 그대로 URL에 쓰므로 usePersistentState와 함께 쓸 때는 serialize, deserialize를 지정하는 것이 좋습니다.
+export function createQueryStorage({ history = "replace" }: QueryStorageOptions = {}): PersistentStorage {
+  const update = (key: string, value: string) => {
+    const url = new URL(window.location.href);
+    if (value === "") {
+      url.searchParams.delete(key);
+    } else {
+      url.searchParams.set(key, value);
+    }
+    if (url.href === window.location.href) {
+      return;
+    }
+    if (history === "push") {
+      window.history.pushState(window.history.state, "", url);
+    } else {
+      window.history.replaceState(window.history.state, "", url);
+    }
+    notifyAll();
+  };
+
+  return {
+    getItem: (key) => new URLSearchParams(window.location.search).get(key),
+    setItem: update,
+    removeItem: (key) => update(key, ""),
+    // 어떤 매개변수가 바뀌었는지는 알 수 없으므로, 구독자가 값을 다시 읽어 비교한다.
+    subscribe: (_key, listener) => {
+      listeners.add(listener);
+      window.addEventListener("popstate", listener);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener("popstate", listener);
+      };
+    },
+  };
+}
+
+let queryStorage: PersistentStorage | undefined;
+
+// getQueryStorage 함수는 기본 옵션(replace)의 query 저장소를 돌려줍니다. 항상 같은 객체입니다.
+export function getQueryStorage(): PersistentStorage {
+  queryStorage ??= createQueryStorage();
+  return queryStorage;
+}
@@ -0,0 +1,191 @@
+// 상태 변경 하나를 나타낸다. 미들웨어는 이 값을 보고 기록하거나 바꿔서 다음으로 넘긴다.
+export interface StoreUpdate<S> {
+  // 상태를 바꾼 액션 이름. 액션 밖에서 setState를 호출했다면 "setState"
+  action: string;
+  args: unknown[];
+  // 같은 액션 호출에서 일어난 변경은 같은 번호를 가진다.
+  actionId: number;
+  prevState: S;
+  nextState: S;
+}
+
+export type StoreDispatch<S> = (update: StoreUpdate<S>) => void;
+
+export interface MiddlewareApi<S> {
+  name: string;
+  getState(): S;
+  // 미들웨어를 거치지 않고 상태를 바꾼다. (저장된 상태 복원 등에 사용)
+  replaceState(state: S): void;
+  // 저장소에 첫 구독자가 생기면 start를 실행하고, 구독자가 모두 없어지거나 destroy되면 start가 돌려준 정리 함수를 실행한다.
+  // storage 이벤트처럼 밖에서 상태를 바꾸는 구독은 여기서 연결해야, 사용하지 않는 저장소가 구독을 남기지 않는다.
+  onActive(start: () => (() => void) | void): void;
+}
+
+export type Middleware<S> = (api: MiddlewareApi<S>) => (next: StoreDispatch<S>) => StoreDispatch<S>;
+
+export type SetState<S> = (partial: Partial<S> | ((state: S) => Partial<S>)) => void;
+
+// 액션 객체의 모든 값은 함수여야 한다. (interface로 선언한 액션 타입도 받을 수 있도록 매핑 타입을 사용한다)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type StoreActions<A> = { [K in keyof A]: (...args: any[]) => unknown };
+
+export type StoreListener<S> = (state: S, prevState: S) => void;
+
+export interface StoreOptions<S> {
+  // 로그 등에 사용하는 저장소 이름
+  name?: string;
+  // 앞에 있는 미들웨어가 먼저 변경을 받는다.
+  middleware?: Middleware<S>[];
+}
+
+export interface Store<S, A extends StoreActions<A>> {
+  name: string;
+  actions: A;
+  getState(): S;
+  setState: SetState<S>;
+  subscribe(listener: StoreListener<S>): () => void;
+  // callback 안의 변경을 모아서 구독자에게 한 번만 알린다.
+  batch(callback: () => void): void;
+  // 구독자를 모두 지우고 미들웨어가 연결한 구독을 정리한다. 이후에 다시 구독하면 다시 연결된다.
+  destroy(): void;
+}
+
+// createStore 함수는 React 밖에서 상태를 관리하는 저장소를 만듭니다.
+//    - actions는 set, get을 받아 상태를 바꾸는 함수들을 만든다.
+//    - 액션 하나에서 일어난 변경은 모아서 구독자에게 한 번만 알린다.
+//    - 모든 변경은 미들웨어를 거친 뒤에 반영된다.
+// 컴포넌트에서는 useStore(store, selector, equals)로 필요한 부분만 구독합니다.
+export function createStore<S extends object, A extends StoreActions<A>>(
+  initialState: S,
+  createActions: (set: SetState<S>, get: () => S) => A,
+  { name = "store", middleware = [] }: StoreOptions<NoInfer<S>> = {}
+): Store<S, A> {
+  let state = initialState;
+  const listeners = new Set<StoreListener<S>>();
+  // 미들웨어가 onActive로 등록한 연결 함수와, 연결되어 있는 동안의 정리 함수들 (연결되어 있지 않으면 null)
+  const activations: (() => (() => void) | void)[] = [];
+  let deactivations: (() => void)[] | null = null;
+
+  // 진행 중인 batch의 깊이와 batch가 시작될 때의 상태
+  let batchDepth = 0;
+  let batchStartState = state;
+  // 실행 중인 액션 (중첩 호출을 위해 스택으로 관리)
+  const runningActions: { action: string; args: unknown[]; actionId: number }[] = [];
+  let lastActionId = 0;
+
+  const notify = (prevState: S) => {
+    if (Object.is(prevState, state)) {
+      return;
+    }
+    const currentState = state;
+    listeners.forEach((listener) => listener(currentState, prevState));
+  };
+
+  const apply = (nextState: S) => {
+    const prevState = state;
+    state = nextState;
+    if (batchDepth === 0) {
+      notify(prevState);
+    }
+  };
+
+  const batch = (callback: () => void) => {
+    if (batchDepth === 0) {
+      batchStartState = state;
+    }
+    batchDepth++;
+    try {
+      callback();
+    } finally {
+      batchDepth--;
+      if (batchDepth === 0) {
+        notify(batchStartState);
+      }
+    }
+  };
+
+  const api: MiddlewareApi<S> = {
+    name,
+    getState: () => state,
+    replaceState: apply,
+    onActive: (start) => {
+      activations.push(start);
+    },
+  };
+
+  const activate = () => {
+    deactivations = [];
+    for (const start of activations) {
+      const cleanup = start();
+      if (cleanup) {
+        deactivations.push(cleanup);
+      }
+    }
+  };
+
+  const deactivate = () => {
+    const cleanups = deactivations;
+    deactivations = null;
+    cleanups?.forEach((cleanup) => cleanup());
+  };
+
+  const dispatch = middleware
+    .map((create) => create(api))
+    .reduceRight<StoreDispatch<S>>((next, wrap) => wrap(next), (update) => apply(update.nextState));
+
+  const setState: SetState<S> = (partial) => {
+    const changes = typeof partial === "function" ? partial(state) : partial;
+    const { action, args, actionId } = runningActions[runningActions.length - 1] ?? {
+      action: "setState",
+      args: [changes],
+      actionId: ++lastActionId,
+    };
+    dispatch({ action, args, actionId, prevState: state, nextState: { ...state, ...changes } });
+  };
+
+  const getState = () => state;
+
+  const actions = Object.fromEntries(
+    Object.entries<(...args: unknown[]) => unknown>(createActions(setState, getState)).map(([action, run]) => [
+      action,
+      (...args: unknown[]) => {
+        let result: unknown;
+        // 중첩된 액션은 바깥 액션의 일부로 본다.
+        const actionId = runningActions[runningActions.length - 1]?.actionId ?? ++lastActionId;
+        runningActions.push({ action, args, actionId });
+        try {
+          batch(() => {
+            result = run(...args);
+          });
+        } finally {
+          runningActions.pop();
+        }
+        return result;
+      },
+    ])
+  ) as A;
+
+  return {
+    name,
+    actions,
+    getState,
+    setState,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (deactivations === null) {
+        activate();
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          deactivate();
+        }
+      };
+    },
+    batch,
+    destroy: () => {
+      listeners.clear();
+      deactivate();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { ReactNode, createContext, createElement, useContext, useEffect } from "react";
+import { Equals } from "../equalities";
+import { useRef } from "../hooks";
+import { Store, StoreActions } from "./createStore";
+import { useStore } from "./useStore";
+
+export interface StoreContext<S, A extends StoreActions<A>> {
+  // 마운트될 때 저장소를 하나 만들어 하위 컴포넌트에 내려주고, 언마운트될 때 destroy한다.
+  Provider: (props: { children?: ReactNode }) => ReactNode;
+  useSelector<T>(selector: (state: S) => T, equals?: Equals): T;
+  // 액션은 바뀌지 않으므로 구독하지 않는다.
+  useActions(): A;
+  useStoreApi(): Store<S, A>;
+}
+
+// createStoreContext 함수는 Provider마다 저장소를 따로 만드는 컨텍스트를 만듭니다.
+// 화면(또는 테스트)마다 상태를 분리해야 할 때 모듈 전역 저장소 대신 사용합니다.
+export function createStoreContext<S, A extends StoreActions<A>>(
+  createStoreInstance: () => Store<S, A>
+): StoreContext<S, A> {
+  const Context = createContext<Store<S, A> | null>(null);
+
+  const Provider = ({ children }: { children?: ReactNode }) => {
+    const store = useRef<Store<S, A> | null>(null);
+    if (store.current === null) {
+      store.current = createStoreInstance();
+    }
+    const instance = store.current;
+    // 언마운트되면 저장소가 연결한 구독(storage 이벤트 등)을 정리한다.
+    useEffect(() => () => instance.destroy(), [instance]);
+    return createElement(Context.Provider, { value: instance }, children);
+  };
+
+  const useStoreApi = () => {
+    const store = useContext(Context);
+    if (store === null) {
+      throw new Error("useStoreApi must be used within a StoreContext Provider");
+    }
+    return store;
+  };
+
+  return {
+    Provider,
+    useStoreApi,
+    useSelector: (selector, equals) => useStore(useStoreApi(), selector, equals),
+    useActions: () => useStoreApi().actions,
+  };
+}
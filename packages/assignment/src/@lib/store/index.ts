@@ -0,0 +1,5 @@
+export * from "./createStore";
+export * from "./createStoreContext";
+export * from "./middleware";
+export * from "./timeTravel";
+export * from "./useStore";
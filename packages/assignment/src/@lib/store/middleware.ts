@@ -0,0 +1,117 @@
+import { deepDiff, deepEquals, formatDifference } from "../equalities";
+import {
+  PersistentStorage,
+  VersionedStorageOptions,
+  getWebStorage,
+  readPersisted,
+  writePersisted,
+} from "../storage";
+import { Middleware, StoreUpdate } from "./createStore";
+
+export interface LoggerOptions {
+  log?: (message: string) => void;
+}
+
+// logger 미들웨어는 액션 이름과 바뀐 경로를 출력합니다.
+// 예:
+//   [app] addNotification("저장되었습니다")
+//     notifications[0]: + {id, message}
+export function logger<S>({ log = console.log }: LoggerOptions = {}): Middleware<S> {
+  return ({ name, getState }) =>
+    (next) =>
+    (update) => {
+      const prevState = getState();
+      next(update);
+      const lines = deepDiff(prevState, getState()).map((difference) => `  ${formatDifference(difference)}`);
+      const args = update.args.map((arg) => JSON.stringify(arg)).join(", ");
+      log([`[${name}] ${update.action}(${args})`, ...lines].join("\n"));
+    };
+}
+
+export interface PersistOptions<S> extends VersionedStorageOptions<Partial<S>> {
+  key: string;
+  // 저장할 곳 (기본값: localStorage)
+  storage?: Pick<PersistentStorage, "getItem" | "setItem" | "subscribe">;
+  // 저장할 부분만 고른다. (기본값: 전체 상태)
+  pick?: (state: S) => Partial<S>;
+}
+
+// persist 미들웨어는 변경이 반영될 때마다 상태를 storage에 저장하고,
+// 저장소를 만들 때 저장된 상태를 초기 상태 위에 덮어씁니다.
+//    - version이 더 낮은 값은 migrate로 바꿔서 사용한다.
+//    - 저장된 값과 deepEquals로 같다면 저장하지 않는다.
+//    - 저장소를 구독하는 동안 다른 탭에서 저장된 값이 바뀌면 상태에 반영한다.
+export function persist<S>({
+  key,
+  storage = getWebStorage("local"),
+  pick = (state) => state,
+  ...options
+}: PersistOptions<S>): Middleware<S> {
+  return ({ getState, replaceState, onActive }) => {
+    // 마지막으로 storage와 맞춘 값
+    let persisted: Partial<S> | undefined;
+
+    const restore = () => {
+      const stored = readPersisted(storage, key, options);
+      if (stored === undefined || (persisted !== undefined && deepEquals(persisted, stored.value))) {
+        return;
+      }
+      replaceState({ ...getState(), ...stored.value });
+      if (stored.migrated) {
+        writePersisted(storage, key, stored.value, options);
+      }
+      persisted = stored.value;
+    };
+
+    restore();
+    // 구독하는 동안에만 다른 탭의 변경을 받고, 그 사이에 바뀐 값은 연결할 때 다시 읽는다.
+    onActive(() => {
+      restore();
+      return storage.subscribe?.(key, restore);
+    });
+
+    return (next) => (update) => {
+      next(update);
+      const value = pick(getState());
+      if (persisted !== undefined && deepEquals(persisted, value)) {
+        return;
+      }
+      persisted = value;
+      writePersisted(storage, key, value, options);
+    };
+  };
+}
+
+export interface ActionRecord<S> extends StoreUpdate<S> {
+  timestamp: number;
+}
+
+export interface ActionRecorder<S> extends Middleware<S> {
+  readonly records: ActionRecord<S>[];
+  clear(): void;
+}
+
+export interface ActionRecorderOptions {
+  // 보관할 최대 기록 수. 넘치면 오래된 기록부터 지운다.
+  limit?: number;
+}
+
+// actionRecorder 함수는 devtools처럼 액션 기록(이름, 인자, 전후 상태)을 남기는 미들웨어를 만듭니다.
+export function actionRecorder<S>({ limit = 100 }: ActionRecorderOptions = {}): ActionRecorder<S> {
+  const records: ActionRecord<S>[] = [];
+
+  const middleware: Middleware<S> = () => (next) => (update) => {
+    next(update);
+    records.push({ ...update, timestamp: Date.now() });
+    if (records.length > limit) {
+      records.splice(0, records.length - limit);
+    }
+  };
+
+  return Object.assign(middleware, {
+    records,
+    clear: () => {
+      records.length = 0;
+    },
+  });
+}
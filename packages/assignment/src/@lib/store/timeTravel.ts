@@ -0,0 +1,125 @@
+import {
+  History,
+  HistoryControls,
+  HistoryOptions,
+  createHistory,
+  createTransactionTracker,
+  jumpHistory,
+  pushHistory,
+} from "../history";
+import { Middleware, MiddlewareApi, StoreDispatch } from "./createStore";
+
+export interface TimeTravel<S> extends Middleware<S>, HistoryControls {
+  getHistory(): History<S> | null;
+}
+
+export interface TimeTravelOptions extends HistoryOptions {
+  // 여러 저장소의 기록을 한 순서로 되돌릴 때 사용한다.
+  scope?: TimeTravelScope;
+}
+
+export interface TimeTravelScope {
+  undo(): void;
+  redo(): void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  // timeTravel 미들웨어가 새 기록을 만들 때 호출한다.
+  record(controls: HistoryControls): void;
+}
+
+// createTimeTravelScope 함수는 여러 저장소에 걸쳐 가장 최근에 바뀐 저장소부터 되돌리는 범위를 만듭니다.
+// 같은 scope를 넘긴 timeTravel 미들웨어들의 기록 순서를 기억합니다.
+export function createTimeTravelScope(): TimeTravelScope {
+  const undoStack: HistoryControls[] = [];
+  const redoStack: HistoryControls[] = [];
+
+  return {
+    undo() {
+      const controls = undoStack.pop();
+      if (controls) {
+        controls.undo();
+        redoStack.push(controls);
+      }
+    },
+    redo() {
+      const controls = redoStack.pop();
+      if (controls) {
+        controls.redo();
+        undoStack.push(controls);
+      }
+    },
+    get canUndo() {
+      return undoStack.length > 0;
+    },
+    get canRedo() {
+      return redoStack.length > 0;
+    },
+    record(controls) {
+      undoStack.push(controls);
+      redoStack.length = 0;
+    },
+  };
+}
+
+// timeTravel 함수는 저장소의 상태 변경을 기록해서 되돌릴 수 있게 하는 미들웨어를 만듭니다.
+//    - 액션 하나에서 일어난 변경은 하나의 기록이 된다.
+//    - undo, redo, jump는 뒤쪽 미들웨어(persist, logger 등)를 거쳐 반영된다.
+// 미들웨어 목록에서 기록하지 않을 미들웨어보다 앞에 둡니다.
+export function timeTravel<S>({ limit = 100, groupDelay = 0, scope }: TimeTravelOptions = {}): TimeTravel<S> {
+  const tracker = createTransactionTracker(groupDelay);
+  let history: History<S> | null = null;
+  let api: MiddlewareApi<S> | null = null;
+  let forward: StoreDispatch<S> | null = null;
+
+  const middleware: Middleware<S> = (middlewareApi) => {
+    api = middlewareApi;
+    return (next) => {
+      forward = next;
+      return (update) => {
+        next(update);
+        const timestamp = Date.now();
+        // 다른 미들웨어가 상태를 바꿨다면(저장된 상태 복원 등) 현재 기록을 맞춘다.
+        if (history === null || history.present.value !== update.prevState) {
+          history = { ...(history ?? createHistory(update.prevState)), present: { value: update.prevState, timestamp } };
+        }
+        const prevHistory = history;
+        const merge = tracker.shouldMerge(timestamp, update.actionId);
+        history = pushHistory(history, middlewareApi.getState(), { limit, merge, timestamp });
+        if (history !== prevHistory && !merge) {
+          scope?.record(controls);
+        }
+      };
+    };
+  };
+
+  const jump = (steps: number) => {
+    if (history === null || api === null || forward === null) {
+      return;
+    }
+    const target = jumpHistory(history, steps);
+    if (target === history) {
+      return;
+    }
+    tracker.reset();
+    history = target;
+    forward({
+      action: steps < 0 ? "undo" : "redo",
+      args: [Math.abs(steps)],
+      actionId: 0,
+      prevState: api.getState(),
+      nextState: target.present.value,
+    });
+  };
+
+  const controls = Object.defineProperties(middleware, {
+    undo: { value: () => jump(-1) },
+    redo: { value: () => jump(1) },
+    jump: { value: jump },
+    canUndo: { get: () => (history?.past.length ?? 0) > 0 },
+    canRedo: { get: () => (history?.future.length ?? 0) > 0 },
+    transaction: { value: (callback: () => void) => tracker.transaction(callback) },
+    getHistory: { value: () => history },
+  }) as TimeTravel<S>;
+
+  return controls;
+}
@@ -0,0 +1,13 @@
+import { Equals, shallowEquals } from "../equalities";
+import { useSyncSelector } from "../hooks/useSyncSelector";
+import { Store, StoreActions } from "./createStore";
+
+// useStore 훅은 저장소의 상태에서 selector로 고른 값만 구독합니다.
+// 기본 비교 함수는 shallowEquals이며, 중첩된 값을 고른다면 deepEquals 등을 넘깁니다.
+export function useStore<S, A extends StoreActions<A>, T>(
+  store: Store<S, A>,
+  selector: (state: S) => T,
+  equals: Equals = shallowEquals
+): T {
+  return useSyncSelector(store.subscribe, store.getState, selector, equals);
+}
@@ -0,0 +1,76 @@
+export interface TimingOptions {
+  // 처음 호출할 때 바로 실행한다.
+  leading?: boolean;
+  // 기다린 뒤 마지막 호출의 인자로 실행한다.
+  trailing?: boolean;
+}
+
+export interface Scheduled<A extends unknown[]> {
+  (...args: A): void;
+  // 기다리는 호출을 취소한다.
+  cancel(): void;
+  // 기다리는 호출이 있다면 지금 실행한다.
+  flush(): void;
+  // 기다리는 호출이 있는지 여부
+  pending(): boolean;
+}
+
+// debounce 함수는 호출이 delay 동안 멈출 때까지 기다렸다가 fn을 실행하는 함수를 만듭니다.
+//    - leading: 연속 호출의 첫 호출에서 바로 실행한다. (기본값: false)
+//    - trailing: 연속 호출이 끝난 뒤 마지막 인자로 실행한다. (기본값: true)
+// 타이머는 호출할 때의 setTimeout을 사용하므로 vitest의 가짜 타이머로 테스트할 수 있습니다.
+export function debounce<A extends unknown[]>(
+  fn: (...args: A) => void,
+  delay: number,
+  { leading = false, trailing = true }: TimingOptions = {}
+): Scheduled<A> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingArgs: A | null = null;
+
+  const invoke = () => {
+    const args = pendingArgs;
+    pendingArgs = null;
+    if (args !== null) {
+      fn(...args);
+    }
+  };
+
+  const debounced = (...args: A) => {
+    const isFirstCall = timer === null;
+    if (timer !== null) {
+      clearTimeout(timer);
+    }
+    if (isFirstCall && leading) {
+      pendingArgs = null;
+      fn(...args);
+    } else {
+      pendingArgs = args;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      if (trailing) {
+        invoke();
+      } else {
+        pendingArgs = null;
+      }
+    }, delay);
+  };
+
+  return Object.assign(debounced, {
+    cancel: () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pendingArgs = null;
+    },
+    flush: () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      invoke();
+    },
+    pending: () => pendingArgs !== null,
+  });
+}
@@ -0,0 +1,2 @@
+export * from "./debounce";
+export * from "./throttle";
@@ -0,0 +1,59 @@
+import { Scheduled, TimingOptions } from "./debounce";
+
+// throttle 함수는 delay마다 최대 한 번만 fn을 실행하는 함수를 만듭니다.
+//    - leading: 쉬고 있다가 호출되면 바로 실행한다. (기본값: true)
+//    - trailing: delay 동안 들어온 호출이 있다면 끝날 때 마지막 인자로 실행한다. (기본값: true)
+export function throttle<A extends unknown[]>(
+  fn: (...args: A) => void,
+  delay: number,
+  { leading = true, trailing = true }: TimingOptions = {}
+): Scheduled<A> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingArgs: A | null = null;
+
+  const startWindow = () => {
+    timer = setTimeout(() => {
+      timer = null;
+      if (trailing && pendingArgs !== null) {
+        const args = pendingArgs;
+        pendingArgs = null;
+        fn(...args);
+        // 실행한 때부터 다시 delay를 센다.
+        startWindow();
+      } else {
+        pendingArgs = null;
+      }
+    }, delay);
+  };
+
+  const throttled = (...args: A) => {
+    if (timer !== null) {
+      pendingArgs = args;
+      return;
+    }
+    if (leading) {
+      fn(...args);
+    } else {
+      pendingArgs = args;
+    }
+    startWindow();
+  };
+
+  return Object.assign(throttled, {
+    cancel: () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pendingArgs = null;
+    },
+    flush: () => {
+      const args = pendingArgs;
+      pendingArgs = null;
+      if (args !== null) {
+        fn(...args);
+      }
+    },
+    pending: () => pendingArgs !== null,
+  });
+}
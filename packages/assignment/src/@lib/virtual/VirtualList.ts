@@ -0,0 +1,119 @@
+import {
+  CSSProperties,
+  Key,
+  ReactNode,
+  UIEvent,
+  createElement,
+  forwardRef,
+  useImperativeHandle,
+  useLayoutEffect,
+  useState,
+} from "react";
+import { useMemo, useRef } from "../hooks";
+import {
+  ItemSize,
+  ScrollAlign,
+  createVirtualLayout,
+  getScrollOffsetForIndex,
+  getVisibleRange,
+} from "./layout";
+
+export interface VirtualListProps {
+  count: number;
+  // 항목 높이(px). 항목마다 다르다면 함수를 넘기고, 함수는 높이 규칙이 바뀔 때만 새로 만들어야 한다.
+  itemSize: ItemSize;
+  // 보이는 영역의 높이(px)
+  height: number;
+  renderItem: (index: number) => ReactNode;
+  // 항목의 key (기본값: 인덱스)
+  getItemKey?: (index: number) => Key;
+  // 보이는 영역 앞뒤로 더 렌더링할 항목 수 (기본값: 5)
+  overscan?: number;
+  // 스크롤해도 위에 고정되는 영역
+  header?: ReactNode;
+  className?: string;
+}
+
+export interface VirtualListHandle {
+  scrollToIndex(index: number, align?: ScrollAlign): void;
+}
+
+const ROW_STYLE: CSSProperties = { position: "absolute", left: 0, right: 0 };
+const HEADER_STYLE: CSSProperties = { position: "sticky", top: 0, zIndex: 1 };
+
+// VirtualList 컴포넌트는 보이는 범위(와 overscan)의 항목만 렌더링합니다.
+//    - 항목 수와 관계없이 DOM 크기가 일정하고, 모든 항목까지 스크롤할 수 있다.
+//    - 스크롤해도 보이는 범위가 바뀔 때만 다시 렌더링한다.
+//    - ref로 scrollToIndex(index, align)를 호출할 수 있다.
+export const VirtualList = forwardRef<VirtualListHandle, VirtualListProps>(function VirtualList(
+  { count, itemSize, height, renderItem, getItemKey = (index) => index, overscan = 5, header, className },
+  ref
+) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const headerRef = useRef<HTMLDivElement | null>(null);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const [headerHeight, setHeaderHeight] = useState(0);
+
+  const layout = useMemo(() => createVirtualLayout(count, itemSize), [count, itemSize]);
+  // 고정된 header가 보이는 영역의 위쪽을 가리므로 그만큼 뺀 영역에 항목을 보여준다.
+  const viewportSize = Math.max(0, height - headerHeight);
+  const range = getVisibleRange(layout, scrollOffset - headerHeight, viewportSize, overscan);
+
+  useLayoutEffect(() => {
+    setHeaderHeight(headerRef.current?.offsetHeight ?? 0);
+  }, [header]);
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const offset = event.currentTarget.scrollTop;
+    const next = getVisibleRange(layout, offset - headerHeight, viewportSize, overscan);
+    if (next.start !== range.start || next.end !== range.end) {
+      setScrollOffset(offset);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToIndex(index, align) {
+      const element = scrollRef.current;
+      if (!element) {
+        return;
+      }
+      const listOffset = Math.max(0, element.scrollTop - headerHeight);
+      const offset = getScrollOffsetForIndex(layout, index, listOffset, viewportSize, align) + headerHeight;
+      element.scrollTop = offset;
+      setScrollOffset(offset);
+    },
+  }), [layout, headerHeight, viewportSize]);
+
+  const rows: ReactNode[] = [];
+  for (let index = range.start; index < range.end; index++) {
+    rows.push(
+      createElement(
+        "div",
+        {
+          key: getItemKey(index),
+          role: "listitem",
+          "aria-posinset": index + 1,
+          "aria-setsize": count,
+          style: { ...ROW_STYLE, top: layout.getOffset(index), height: layout.getSize(index) },
+        },
+        renderItem(index)
+      )
+    );
+  }
+
+  return createElement(
+    "div",
+    {
+      ref: scrollRef,
+      className,
+      onScroll: handleScroll,
+      style: { height, overflowY: "auto", position: "relative" },
+    },
+    header !== undefined && createElement("div", { ref: headerRef, style: HEADER_STYLE }, header),
+    createElement(
+      "div",
+      { role: "list", style: { position: "relative", height: layout.totalSize } },
+      rows
+    )
+  );
+});
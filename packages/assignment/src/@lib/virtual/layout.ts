@@ -0,0 +1,124 @@
+// 항목 높이. 모두 같다면 숫자, 항목마다 다르다면 인덱스를 받아 높이를 돌려주는 함수
+export type ItemSize = number | ((index: number) => number);
+
+export interface VirtualLayout {
+  count: number;
+  totalSize: number;
+  getOffset(index: number): number;
+  getSize(index: number): number;
+  // offset 위치에 있는 항목의 인덱스
+  findIndex(offset: number): number;
+}
+
+export interface VirtualRange {
+  start: number;
+  // 포함하지 않는다.
+  end: number;
+}
+
+export type ScrollAlign = "start" | "center" | "end" | "auto";
+
+// createVirtualLayout 함수는 항목들의 위치를 계산합니다.
+//    - 높이가 모두 같다면 곱셈으로 바로 계산한다.
+//    - 높이가 다르다면 누적 위치를 한 번 계산해 두고, 이진 탐색으로 찾는다.
+export function createVirtualLayout(count: number, itemSize: ItemSize): VirtualLayout {
+  if (typeof itemSize === "number") {
+    return {
+      count,
+      totalSize: count * itemSize,
+      getOffset: (index) => index * itemSize,
+      getSize: () => itemSize,
+      findIndex: (offset) => clamp(Math.floor(offset / itemSize), 0, count - 1),
+    };
+  }
+
+  // offsets[i]는 i번째 항목의 시작 위치, offsets[count]는 전체 높이
+  const offsets = new Float64Array(count + 1);
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + itemSize(i);
+  }
+
+  return {
+    count,
+    totalSize: offsets[count],
+    getOffset: (index) => offsets[index],
+    getSize: (index) => offsets[index + 1] - offsets[index],
+    findIndex: (offset) => {
+      let low = 0;
+      let high = count - 1;
+      while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (offsets[middle] <= offset) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return low;
+    },
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// getVisibleRange 함수는 scrollOffset부터 viewportSize만큼 보이는 항목의 범위를 계산합니다.
+// 빠르게 스크롤할 때 빈 곳이 보이지 않도록 앞뒤로 overscan개씩 더 포함합니다.
+export function getVisibleRange(
+  layout: VirtualLayout,
+  scrollOffset: number,
+  viewportSize: number,
+  overscan = 0
+): VirtualRange {
+  if (layout.count === 0) {
+    return { start: 0, end: 0 };
+  }
+  const first = layout.findIndex(Math.max(0, scrollOffset));
+  const last = layout.findIndex(Math.max(0, scrollOffset + viewportSize - 1));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(layout.count, last + 1 + overscan),
+  };
+}
+
+// getScrollOffsetForIndex 함수는 index번째 항목이 보이도록 하는 스크롤 위치를 계산합니다.
+//    - start, center, end: 항목을 보이는 영역의 위, 가운데, 아래에 맞춘다.
+//    - auto: 이미 보인다면 그대로 두고, 아니라면 가까운 쪽(start 또는 end)에 맞춘다.
+export function getScrollOffsetForIndex(
+  layout: VirtualLayout,
+  index: number,
+  scrollOffset: number,
+  viewportSize: number,
+  align: ScrollAlign = "auto"
+): number {
+  if (layout.count === 0) {
+    return 0;
+  }
+  const target = clamp(index, 0, layout.count - 1);
+  const itemStart = layout.getOffset(target);
+  const itemEnd = itemStart + layout.getSize(target);
+  const maxOffset = Math.max(0, layout.totalSize - viewportSize);
+
+  let offset: number;
+  switch (align) {
+    case "start":
+      offset = itemStart;
+      break;
+    case "end":
+      offset = itemEnd - viewportSize;
+      break;
+    case "center":
+      offset = itemStart - (viewportSize - (itemEnd - itemStart)) / 2;
+      break;
+    default:
+      if (itemStart >= scrollOffset && itemEnd <= scrollOffset + viewportSize) {
+        offset = scrollOffset;
+      } else if (itemStart < scrollOffset) {
+        offset = itemStart;
+      } else {
+        offset = itemEnd - viewportSize;
+      }
+  }
+  return clamp(offset, 0, maxOffset);
+}
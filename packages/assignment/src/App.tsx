@@ -1,5 +1,28 @@
-import React, { useState, createContext, useContext } from 'react';
+import React, { useEffect, useState } from 'react';
 import { generateItems, renderLog } from './utils';
+import {
+  MatchRange,
+  PersistentStateOptions,
+  createSearchEngine,
+  createStore,
+  createStoreContext,
+  deepEquals,
+  getQueryStorage,
+  memo,
+  persist,
+  timeTravel,
+  useEvent,
+  useHistoryState,
+  useMemo,
+  usePersistentState,
+  useRef,
+  useRenderTracker,
+  useSearch,
+  useSearchValue,
+  splitHighlights,
+  useUndoShortcuts,
+  VirtualList,
+} from './@lib';
 
 // 타입 정의
 interface Item {
@@ -21,38 +44,85 @@ interface Notification {
   type: 'info' | 'success' | 'warning' | 'error';
 }
 
-// AppContext 타입 정의
-interface AppContextType {
+// App 상태와 액션 타입 정의
+interface AppState {
   theme: string;
-  toggleTheme: () => void;
   user: User | null;
+  notifications: Notification[];
+}
+
+interface AppActions {
+  toggleTheme: () => void;
   login: (email: string, password: string) => void;
   logout: () => void;
-  notifications: Notification[];
   addNotification: (message: string, type: Notification['type']) => void;
   removeNotification: (id: number) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
 }
 
-const AppContext = createContext<AppContextType | undefined>(undefined);
+const createAppStore = () => {
+  // 로그인, 알림 닫기 등 액션 단위로 되돌릴 수 있도록 기록한다.
+  const history = timeTravel<AppState>({ limit: 50 });
 
-// 커스텀 훅: useAppContext
-const useAppContext = () => {
-  const context = useContext(AppContext);
-  if (context === undefined) {
-    throw new Error('useAppContext must be used within an AppProvider');
-  }
-  return context;
+  return createStore<AppState, AppActions>(
+    { theme: 'light', user: null, notifications: [] },
+    (set) => {
+      const addNotification = (message: string, type: Notification['type']) => {
+        const newNotification: Notification = {
+          id: Date.now(),
+          message,
+          type
+        };
+        set(state => ({ notifications: [...state.notifications, newNotification] }));
+      };
+
+      return {
+        toggleTheme: () => {
+          set(state => ({ theme: state.theme === 'light' ? 'dark' : 'light' }));
+        },
+        login: (email: string) => {
+          set({ user: { id: 1, name: '홍길동', email } });
+          addNotification('성공적으로 로그인되었습니다', 'success');
+        },
+        logout: () => {
+          set({ user: null });
+          addNotification('로그아웃되었습니다', 'info');
+        },
+        addNotification,
+        removeNotification: (id: number) => {
+          set(state => ({ notifications: state.notifications.filter(notification => notification.id !== id) }));
+        },
+        undo: history.undo,
+        redo: history.redo,
+        canUndo: () => history.canUndo,
+        canRedo: () => history.canRedo
+      };
+    },
+    {
+      name: 'app',
+      // 테마는 새로고침해도 유지한다.
+      middleware: [history, persist({ key: 'app-theme', version: 1, pick: ({ theme }) => ({ theme }) })]
+    }
+  );
 };
 
+// App마다 저장소를 하나씩 만들고, 컴포넌트는 필요한 값만 골라서 구독한다.
+const AppStore = createStoreContext(createAppStore);
+
 // Header 컴포넌트
-export const Header: React.FC = () => {
+export const Header = memo(function Header() {
   renderLog('Header rendered');
-  const { theme, toggleTheme, user, login, logout } = useAppContext();
+  useRenderTracker('Header');
+  const { theme, user } = AppStore.useSelector(({ theme, user }) => ({ theme, user }));
+  const { toggleTheme, login, logout } = AppStore.useActions();
 
-  const handleLogin = () => {
+  const handleLogin = useEvent(() => {
     // 실제 애플리케이션에서는 사용자 입력을 받아야 합니다.
     login('user@example.com', 'password');
-  };
+  });
 
   return (
     <header className="bg-gray-800 text-white p-4">
@@ -74,20 +144,157 @@ export const Header: React.FC = () => {
       </div>
     </header>
   );
+});
+
+// 상품 한 줄의 높이(간격 포함)와 목록 영역의 높이
+const ITEM_ROW_HEIGHT = 48;
+const ITEM_LIST_HEIGHT = 600;
+const PRICE_STEP = 1000;
+// 입력이 이 시간 동안 멈추면 검색 결과를 다시 계산한다.
+const SEARCH_DELAY = 200;
+// 상품 이름에서 맞는 상품을 카테고리에서 맞는 상품보다 앞에 보여준다.
+const SEARCH_FIELDS = { name: 2, category: 1 };
+
+type ItemSort = 'id-asc' | 'id-desc' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc';
+
+const ITEM_SORTS: { value: ItemSort; label: string }[] = [
+  { value: 'id-asc', label: '기본순' },
+  { value: 'id-desc', label: '기본 역순' },
+  { value: 'price-asc', label: '낮은 가격순' },
+  { value: 'price-desc', label: '높은 가격순' },
+  { value: 'name-asc', label: '이름순' },
+  { value: 'name-desc', label: '이름 역순' },
+];
+
+// 검색어와 맞는 부분을 강조한다.
+const Highlight = ({ text, ranges }: { text: string; ranges?: MatchRange[] }) => (
+  <>
+    {splitHighlights(text, ranges).map((part, index) =>
+      part.highlighted ? <mark key={index}>{part.text}</mark> : part.text
+    )}
+  </>
+);
+
+// 상품 이름의 숫자는 숫자 크기대로 정렬한다. (상품 9 < 상품 10)
+const nameCollator = new Intl.Collator('ko', { numeric: true });
+
+const compareItems = (sort: ItemSort) => {
+  const [key, order] = sort.split('-') as ['id' | 'price' | 'name', 'asc' | 'desc'];
+  const direction = order === 'asc' ? 1 : -1;
+  return (a: Item, b: Item) =>
+    direction * (key === 'name' ? nameCollator.compare(a.name, b.name) : a[key] - b[key]);
+};
+
+const parseSort = (raw: string): ItemSort => {
+  const sort = ITEM_SORTS.find(({ value }) => value === raw);
+  if (!sort) {
+    throw new Error(`Unknown sort: ${raw}`);
+  }
+  return sort.value;
 };
 
+const parsePrice = (raw: string): number => {
+  const price = Number(raw);
+  if (!Number.isFinite(price)) {
+    throw new Error(`Invalid price: ${raw}`);
+  }
+  return price;
+};
+
+// 검색 조건은 URL query string에 저장해서, 새로고침하거나 주소를 공유해도 그대로 보인다.
+// 기본값은 URL에 남기지 않고, 읽을 수 없는 값은 기본값으로 되돌린다.
+const queryParam = <T,>(
+  defaultValue: T,
+  serialize: (value: T) => string,
+  deserialize: (raw: string) => T
+): PersistentStateOptions<T> => ({
+  storage: getQueryStorage(),
+  serialize: (value) => (deepEquals(value, defaultValue) ? '' : serialize(value as T)),
+  deserialize,
+});
+
+const NO_CATEGORIES: string[] = [];
+
+const SEARCH_PARAM = queryParam('', String, raw => raw);
+const SORT_PARAM = queryParam<ItemSort>('id-asc', String, parseSort);
+const CATEGORY_PARAM = queryParam(NO_CATEGORIES, categories => categories.join(','), raw => raw.split(',').filter(Boolean));
+const PRICE_PARAM = queryParam<number | null>(null, String, parsePrice);
+
 // ItemList 컴포넌트
-export const ItemList: React.FC<{ items: Item[] }> = ({ items }) => {
+// 보이는 상품만 렌더링하므로, 검색 결과가 많아도 DOM 크기는 일정하고 모든 상품까지 스크롤할 수 있다.
+// 검색어는 상품 이름과 카테고리의 색인에서 찾고(앞부분, 초성, 오타 허용), 기본순에서는 검색어와 잘 맞는 상품부터 보여준다.
+// 검색어 → 가격 → 카테고리 → 정렬 순서로 거르고, 단계마다 메모이제이션해서 바꾼 조건 이후의 단계만 다시 계산한다.
+export const ItemList = memo(function ItemList({ items }: { items: Item[] }) {
   renderLog('ItemList rendered');
-  const [filter, setFilter] = useState('');
-  const { theme } = useAppContext();
+  useRenderTracker('ItemList');
+  const [filter, setFilter] = usePersistentState('q', '', SEARCH_PARAM);
+  const [sort, setSort] = usePersistentState<ItemSort>('sort', 'id-asc', SORT_PARAM);
+  const [categories, setCategories] = usePersistentState('category', NO_CATEGORIES, CATEGORY_PARAM);
+  const [minPrice, setMinPrice] = usePersistentState<number | null>('min', null, PRICE_PARAM);
+  const [maxPrice, setMaxPrice] = usePersistentState<number | null>('max', null, PRICE_PARAM);
+  const theme = AppStore.useSelector(state => state.theme);
+  // 입력창은 바로 바뀌고, 1만 개 상품의 검색은 입력이 멈춘 뒤에 한 번만 한다.
+  const { value: search, isStale } = useSearchValue(filter, { mode: 'debounce', delay: SEARCH_DELAY });
 
-  const filteredItems = items.filter(item =>
-    item.name.toLowerCase().includes(filter.toLowerCase()) ||
-    item.category.toLowerCase().includes(filter.toLowerCase())
-  );
+  const allCategories = useMemo(() => [...new Set(items.map(item => item.category))].sort(), [items]);
+
+  const priceBounds = useMemo(() => items.reduce(
+    (bounds, item) => ({ min: Math.min(bounds.min, item.price), max: Math.max(bounds.max, item.price) }),
+    { min: Infinity, max: -Infinity }
+  ), [items]);
+  const lowerPrice = minPrice ?? priceBounds.min;
+  const upperPrice = maxPrice ?? priceBounds.max;
+
+  // 상품 목록이 바뀔 때만 색인을 다시 만든다. 브라우저에서는 Worker에서 검색하고, 최근 검색 결과는 useSearch가 보관한다.
+  const searchEngine = useMemo(() => createSearchEngine(items, { fields: SEARCH_FIELDS }), [items]);
+  useEffect(() => () => searchEngine.dispose(), [searchEngine]);
+  const { hits, isSearching } = useSearch(searchEngine, search);
+  const isPending = isStale || isSearching;
+
+  const searchedItems = useMemo(() => hits.map(hit => hit.item), [hits]);
+  const highlights = useMemo(() => new Map(hits.map(hit => [hit.item, hit.ranges])), [hits]);
 
-  const averagePrice = items.reduce((sum, item) => sum + item.price, 0) / items.length;
+  const pricedItems = useMemo(() =>
+    minPrice === null && maxPrice === null
+      ? searchedItems
+      : searchedItems.filter(item => item.price >= lowerPrice && item.price <= upperPrice),
+  [searchedItems, minPrice, maxPrice, lowerPrice, upperPrice]);
+
+  // 카테고리별 개수는 카테고리 선택과 관계없이 나머지 조건으로 센다.
+  const categoryCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const item of pricedItems) {
+      counts[item.category] = (counts[item.category] ?? 0) + 1;
+    }
+    return counts;
+  }, [pricedItems]);
+
+  const filteredItems = useMemo(() =>
+    categories.length === 0 ? pricedItems : pricedItems.filter(item => categories.includes(item.category)),
+  [pricedItems, categories]);
+
+  const averagePrice = useMemo(() =>
+    filteredItems.length === 0 ? 0 : filteredItems.reduce((sum, item) => sum + item.price, 0) / filteredItems.length,
+  [filteredItems]);
+
+  const sortedItems = useMemo(() =>
+    sort === 'id-asc' ? filteredItems : [...filteredItems].sort(compareItems(sort)),
+  [filteredItems, sort]);
+
+  const toggleCategory = (category: string) => {
+    setCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  // 가격 범위의 끝으로 옮기면 조건을 지운다.
+  const changeMinPrice = (price: number) => {
+    const next = Math.min(price, upperPrice);
+    setMinPrice(next <= priceBounds.min ? null : next);
+  };
+
+  const changeMaxPrice = (price: number) => {
+    const next = Math.max(price, lowerPrice);
+    setMaxPrice(next >= priceBounds.max ? null : next);
+  };
 
   return (
     <div className="mt-8">
@@ -99,56 +306,126 @@ export const ItemList: React.FC<{ items: Item[] }> = ({ items }) => {
         onChange={(e) => setFilter(e.target.value)}
         className="w-full p-2 mb-4 border border-gray-300 rounded text-black"
       />
-      <p className="mb-4">평균 가격: {averagePrice.toLocaleString()}원</p>
-      <ul className="space-y-2">
-        {filteredItems.slice(0, 100).map(item => (
-          <li key={item.id} className={`p-2 rounded shadow ${theme === 'light' ? 'bg-white text-black' : 'bg-gray-700 text-white'}`}>
-            {item.name} - {item.category} - {item.price.toLocaleString()}원
-          </li>
+      <div className="mb-4 flex flex-wrap items-center gap-4">
+        {allCategories.map(category => (
+          <label key={category} className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={categories.includes(category)}
+              onChange={() => toggleCategory(category)}
+              className="form-checkbox h-5 w-5 text-blue-600"
+            />
+            <span className="ml-2">{category} ({(categoryCounts[category] ?? 0).toLocaleString()})</span>
+          </label>
         ))}
-      </ul>
-      {filteredItems.length > 100 && <p className="mt-4">...그 외 {filteredItems.length - 100}개 상품</p>}
+      </div>
+      <div className="mb-4 grid grid-cols-2 gap-4">
+        <label className="flex flex-col">
+          <span>최소 {lowerPrice.toLocaleString()}원</span>
+          <input
+            type="range"
+            aria-label="최소 가격"
+            min={priceBounds.min}
+            max={priceBounds.max}
+            step={PRICE_STEP}
+            value={lowerPrice}
+            onChange={(e) => changeMinPrice(Number(e.target.value))}
+          />
+        </label>
+        <label className="flex flex-col">
+          <span>최대 {upperPrice.toLocaleString()}원</span>
+          <input
+            type="range"
+            aria-label="최대 가격"
+            min={priceBounds.min}
+            max={priceBounds.max}
+            step={PRICE_STEP}
+            value={upperPrice}
+            onChange={(e) => changeMaxPrice(Number(e.target.value))}
+          />
+        </label>
+      </div>
+      <div className="mb-4 flex justify-between items-center">
+        <p>평균 가격: {Math.round(averagePrice).toLocaleString()}원</p>
+        <select
+          aria-label="정렬"
+          value={sort}
+          onChange={(e) => setSort(e.target.value as ItemSort)}
+          className="p-2 border border-gray-300 rounded text-black"
+        >
+          {ITEM_SORTS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <VirtualList
+        className={isPending ? 'opacity-60' : undefined}
+        count={sortedItems.length}
+        itemSize={ITEM_ROW_HEIGHT}
+        height={ITEM_LIST_HEIGHT}
+        getItemKey={index => sortedItems[index].id}
+        header={
+          <p className={`py-2 ${theme === 'light' ? 'bg-gray-100' : 'bg-gray-900'}`} aria-live="polite">
+            검색 결과 {sortedItems.length.toLocaleString()}개
+            {isPending && <span role="status" className="ml-2 text-gray-500">검색 중...</span>}
+          </p>
+        }
+        renderItem={index => {
+          const item = sortedItems[index];
+          const ranges = highlights.get(item);
+          return (
+            <div className={`p-2 rounded shadow ${theme === 'light' ? 'bg-white text-black' : 'bg-gray-700 text-white'}`}>
+              <Highlight text={item.name} ranges={ranges?.name} /> - <Highlight text={item.category} ranges={ranges?.category} /> - {item.price.toLocaleString()}원
+            </div>
+          );
+        }}
+      />
     </div>
   );
-};
+});
 
 // ComplexForm 컴포넌트
-export const ComplexForm: React.FC = () => {
+export const ComplexForm = memo(function ComplexForm() {
   renderLog('ComplexForm rendered');
-  const { addNotification } = useAppContext();
-  const [formData, setFormData] = useState({
+  useRenderTracker('ComplexForm');
+  const { addNotification } = AppStore.useActions();
+  // 빠르게 입력한 내용은 하나로 묶어서, Ctrl+Z로 입력 단위로 되돌릴 수 있다.
+  const [formData, setFormData, formHistory] = useHistoryState({
     name: '',
     email: '',
     age: 0,
     preferences: [] as string[]
-  });
+  }, { groupDelay: 500 });
+  const formRef = useRef<HTMLFormElement | null>(null);
+  useUndoShortcuts(formHistory, formRef);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // 핸들러는 렌더링마다 새로 만들지 않고 항상 같은 참조를 사용한다.
+  const handleSubmit = useEvent((e: React.FormEvent) => {
     e.preventDefault();
     addNotification('폼이 성공적으로 제출되었습니다', 'success');
-  };
+  });
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = useEvent((e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
       [name]: name === 'age' ? parseInt(value) || 0 : value
     }));
-  };
+  });
 
-  const handlePreferenceChange = (preference: string) => {
+  const handlePreferenceChange = useEvent((preference: string) => {
     setFormData(prev => ({
       ...prev,
       preferences: prev.preferences.includes(preference)
         ? prev.preferences.filter(p => p !== preference)
         : [...prev.preferences, preference]
     }));
-  };
+  });
 
   return (
     <div className="mt-8">
       <h2 className="text-2xl font-bold mb-4">복잡한 폼</h2>
-      <form onSubmit={handleSubmit} className="space-y-4">
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
         <input
           type="text"
           name="name"
@@ -192,12 +469,14 @@ export const ComplexForm: React.FC = () => {
       </form>
     </div>
   );
-};
+});
 
 // NotificationSystem 컴포넌트
-export const NotificationSystem: React.FC = () => {
+export const NotificationSystem = memo(function NotificationSystem() {
   renderLog('NotificationSystem rendered');
-  const { notifications, removeNotification } = useAppContext();
+  useRenderTracker('NotificationSystem');
+  const notifications = AppStore.useSelector(state => state.notifications);
+  const { removeNotification } = AppStore.useActions();
 
   return (
     <div className="fixed bottom-4 right-4 space-y-2">
@@ -218,70 +497,41 @@ export const NotificationSystem: React.FC = () => {
       ))}
     </div>
   );
-};
+});
 
-// 메인 App 컴포넌트
-const App: React.FC = () => {
-  const [theme, setTheme] = useState('light');
-  const [items] = useState(generateItems(10000));
-  const [user, setUser] = useState<User | null>(null);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-
-  const toggleTheme = () => {
-    setTheme(prevTheme => prevTheme === 'light' ? 'dark' : 'light');
-  };
-
-  const login = (email: string) => {
-    setUser({ id: 1, name: '홍길동', email });
-    addNotification('성공적으로 로그인되었습니다', 'success');
-  };
-
-  const logout = () => {
-    setUser(null);
-    addNotification('로그아웃되었습니다', 'info');
-  };
-
-  const addNotification = (message: string, type: Notification['type']) => {
-    const newNotification: Notification = {
-      id: Date.now(),
-      message,
-      type
-    };
-    setNotifications(prev => [...prev, newNotification]);
-  };
-
-  const removeNotification = (id: number) => {
-    setNotifications(prev => prev.filter(notification => notification.id !== id));
-  };
-
-  const contextValue: AppContextType = {
-    theme,
-    toggleTheme,
-    user,
-    login,
-    logout,
-    notifications,
-    addNotification,
-    removeNotification
-  };
+// 테마에 따라 배경을 바꾸는 레이아웃
+const AppLayout: React.FC<{ items: Item[] }> = ({ items }) => {
+  const theme = AppStore.useSelector(state => state.theme);
+  // 되돌릴 기록이 없거나 입력창에서 누른 키는 브라우저의 기본 동작(입력 되돌리기)에 맡긴다.
+  const { undo, redo, canUndo, canRedo } = AppStore.useActions();
+  useUndoShortcuts({ undo, redo, canUndo, canRedo });
 
   return (
-    <AppContext.Provider value={contextValue}>
-      <div className={`min-h-screen ${theme === 'light' ? 'bg-gray-100' : 'bg-gray-900 text-white'}`}>
-        <Header />
-        <div className="container mx-auto px-4 py-8">
-          <div className="flex flex-col md:flex-row">
-            <div className="w-full md:w-1/2 md:pr-4">
-              <ItemList items={items} />
-            </div>
-            <div className="w-full md:w-1/2 md:pl-4">
-              <ComplexForm />
-            </div>
+    <div className={`min-h-screen ${theme === 'light' ? 'bg-gray-100' : 'bg-gray-900 text-white'}`}>
+      <Header />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row">
+          <div className="w-full md:w-1/2 md:pr-4">
+            <ItemList items={items} />
+          </div>
+          <div className="w-full md:w-1/2 md:pl-4">
+            <ComplexForm />
           </div>
         </div>
-        <NotificationSystem />
       </div>
-    </AppContext.Provider>
+      <NotificationSystem />
+    </div>
+  );
+};
+
+// 메인 App 컴포넌트
+const App: React.FC = () => {
+  const [items] = useState(() => generateItems(10000));
+
+  return (
+    <AppStore.Provider>
+      <AppLayout items={items} />
+    </AppStore.Provider>
   );
 };
 
@@ -1,7 +1,8 @@
-import { fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import userEvent from "@testing-library/user-event";
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import App from '../App';
+import { createBufferSink, enableRenderTracing, expectRenders, renderRegistry } from '../@lib';
 import * as utils from '../utils';
 
 const renderLogMock = vi.spyOn(utils, 'renderLog');
@@ -12,6 +13,14 @@ describe('최적화된 App 컴포넌트 테스트', () => {
   beforeEach(() => {
     renderLogMock.mockClear();
     generateItemsSpy.mockClear();
+    renderRegistry.reset();
+    // 상품 검색 조건은 URL에, 테마는 localStorage에 저장되므로 테스트마다 지운다.
+    window.history.replaceState(null, '', '/');
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   it('초기 렌더링 시 모든 컴포넌트가 한 번씩 렌더링되어야 한다', () => {
@@ -35,27 +44,25 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     expect(renderLogMock).toHaveBeenCalledTimes(2);
   });
 
-  it('로그인/로그아웃 시 Header, ComplexForm, NotificationSystem만 리렌더링되어야 한다', async () => {
+  it('로그인/로그아웃 시 Header, NotificationSystem만 리렌더링되어야 한다', async () => {
     render(<App/>);
     renderLogMock.mockClear();
 
     const loginButton = await screen.findByText('로그인');
     await fireEvent.click(loginButton);
 
-    // Header가 변경 되면 알림이 발생하고, 알림 정보를 CompleteForm과 NotificationSystem이 가져다 사용 중
+    // Header가 변경 되면 알림이 발생하고, 알림 정보는 NotificationSystem만 가져다 사용 중
     expect(renderLogMock).toHaveBeenCalledWith('Header rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(3);
+    expect(renderLogMock).toHaveBeenCalledTimes(2);
     renderLogMock.mockClear();
 
     const logoutButton = await screen.findByText('로그아웃');
     await fireEvent.click(logoutButton);
 
     expect(renderLogMock).toHaveBeenCalledWith('Header rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(3);
+    expect(renderLogMock).toHaveBeenCalledTimes(2);
   });
 
   it('아이템 검색 시 ItemList만 리렌더링되어야 한다', async () => {
@@ -69,6 +76,16 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     expect(renderLogMock).toHaveBeenCalledTimes(1);
   });
 
+  it('렌더링 프로파일러로 아이템 검색 시 ItemList만 커밋되는지 확인할 수 있다', async () => {
+    render(<App/>);
+    expectRenders({ Header: 1, ItemList: 1, ComplexForm: 1, NotificationSystem: 1 });
+
+    const searchInput = await screen.findByPlaceholderText('상품 검색...');
+    await fireEvent.change(searchInput, { target: { value: '검색어' } });
+
+    expectRenders({ Header: 0, ItemList: 1, ComplexForm: 0, NotificationSystem: 0 });
+  });
+
   it('폼 입력 시 ComplexForm만 리렌더링되어야 한다', async () => {
     render(<App/>);
     renderLogMock.mockClear();
@@ -80,7 +97,7 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     expect(renderLogMock).toHaveBeenCalledTimes(1);
   });
 
-  it('알림 추가 및 닫기시 ComplexForm, NotificationSystem만 리렌더링되어야 한다', async () => {
+  it('알림 추가 및 닫기시 NotificationSystem만 리렌더링되어야 한다', async () => {
     render(<App/>);
     renderLogMock.mockClear();
 
@@ -88,8 +105,7 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     await fireEvent.click(submitButton);
 
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(2);
+    expect(renderLogMock).toHaveBeenCalledTimes(1);
     renderLogMock.mockClear();
 
     // 알림 닫기 버튼 찾기 및 클릭
@@ -97,16 +113,24 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     await fireEvent.click(closeButton);
 
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(2);
+    expect(renderLogMock).toHaveBeenCalledTimes(1);
   });
 
   it('여러 작업을 연속으로 수행해도 각 컴포넌트는 필요한 경우에만 리렌더링되어야 한다', async () => {
+    // 검색어는 입력이 멈추고 200ms 뒤에 반영되므로, 가짜 타이머로 입력이 끝날 때 반영해서 다음 작업의 렌더링과 섞이지 않게 한다.
+    // user-event도 키를 누를 때마다 setTimeout으로 기다리므로, 입력하는 동안 타이머를 모두 실행한다.
+    vi.useFakeTimers();
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    const type = async (element: HTMLElement, text: string) => {
+      const typing = user.type(element, text);
+      await vi.runAllTimersAsync();
+      await typing;
+    };
     render(<App/>);
     renderLogMock.mockClear();
 
     // 테마 변경
-    const themeButton = await screen.findByText(/다크 모드|라이트 모드/);
+    const themeButton = screen.getByText(/다크 모드|라이트 모드/);
     await fireEvent.click(themeButton);
     expect(renderLogMock).toHaveBeenCalledWith('Header rendered');
     expect(renderLogMock).toHaveBeenCalledWith('ItemList rendered');
@@ -114,50 +138,214 @@ describe('최적화된 App 컴포넌트 테스트', () => {
     renderLogMock.mockClear();
 
     // 로그인
-    const loginButton = await screen.findByText('로그인');
+    const loginButton = screen.getByText('로그인');
     await fireEvent.click(loginButton);
     expect(renderLogMock).toHaveBeenCalledWith('Header rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(3);
+    expect(renderLogMock).toHaveBeenCalledTimes(2);
     renderLogMock.mockClear();
 
     // 알림 닫기 버튼 찾기 및 클릭
-    await fireEvent.click(await screen.findByText('닫기'));
+    await fireEvent.click(screen.getByText('닫기'));
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(2);
+    expect(renderLogMock).toHaveBeenCalledTimes(1);
     renderLogMock.mockClear();
 
     // 아이템 검색
-    const searchInput = await screen.findByPlaceholderText('상품 검색...');
-    await userEvent.type(searchInput, '검색어입력');
+    const searchInput = screen.getByPlaceholderText('상품 검색...');
+    await type(searchInput, '검색어입력');
+    // 글자마다 입력창을 위해 한 번씩, 입력이 멈춘 뒤 검색 결과를 위해 한 번 더 렌더링된다.
+    expect(screen.queryByRole('status')).toBeNull();
     expect(renderLogMock).toHaveBeenCalledWith('ItemList rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(5);
+    expect(renderLogMock).toHaveBeenCalledTimes(6);
     renderLogMock.mockClear();
 
     // 폼 입력
-    const nameInput = await screen.findByPlaceholderText('이름');
-    await userEvent.type(nameInput, '홍길동');
+    const nameInput = screen.getByPlaceholderText('이름');
+    await type(nameInput, '홍길동');
     expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
     expect(renderLogMock).toHaveBeenCalledTimes(3);
     renderLogMock.mockClear();
 
     // 폼 제출
-    const submitButton = await screen.findByText('제출');
+    const submitButton = screen.getByText('제출');
     await fireEvent.click(submitButton);
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(2);
+    expect(renderLogMock).toHaveBeenCalledTimes(1);
     renderLogMock.mockClear();
 
     // 알림 닫기 버튼 찾기 및 클릭
-    await fireEvent.click(await screen.findByText('닫기'));
+    await fireEvent.click(screen.getByText('닫기'));
     expect(renderLogMock).toHaveBeenCalledWith('NotificationSystem rendered');
-    expect(renderLogMock).toHaveBeenCalledWith('ComplexForm rendered');
-    expect(renderLogMock).toHaveBeenCalledTimes(2);
+    expect(renderLogMock).toHaveBeenCalledTimes(1);
 
     expect(generateItemsSpy).toHaveBeenCalledTimes(1);
   });
+
+  it('상품 목록을 스크롤해도 Header와 ComplexForm은 리렌더링되지 않고, 마지막 상품까지 볼 수 있다', async () => {
+    const { container } = render(<App/>);
+    renderRegistry.reset();
+    renderLogMock.mockClear();
+
+    const list = container.querySelector('[role="list"]') as HTMLElement;
+    const scroller = list.parentElement as HTMLElement;
+    const rowCount = list.children.length;
+
+    scroller.scrollTop = parseInt(list.style.height);
+    await fireEvent.scroll(scroller);
+
+    expect(await screen.findByText(/^상품 9999 -/)).toBeTruthy();
+    expect(list.children.length).toBeLessThanOrEqual(rowCount);
+    expect(renderLogMock).not.toHaveBeenCalled();
+    expectRenders({ Header: 0, ComplexForm: 0, NotificationSystem: 0 });
+  });
+
+  describe('상품 정렬, 카테고리, 가격 조건', () => {
+    const getRows = (container: HTMLElement) =>
+      [...container.querySelectorAll('[role="listitem"]')].map(row => {
+        const [name, category, price] = row.textContent!.split(' - ');
+        return { name, category, price: Number(price.replace(/[^0-9]/g, '')) };
+      });
+
+    it('URL의 조건으로 시작하고, 조건을 바꾸면 URL에 저장한다', async () => {
+      window.history.replaceState(null, '', '/?sort=price-desc&category=도서&min=50000');
+      const { container } = render(<App/>);
+
+      expect((screen.getByLabelText('정렬') as HTMLSelectElement).value).toBe('price-desc');
+      expect((screen.getByLabelText(/^도서/) as HTMLInputElement).checked).toBe(true);
+
+      const rows = getRows(container);
+      expect(rows.length).toBeGreaterThan(0);
+      expect(rows.every(row => row.category === '도서' && row.price >= 50000)).toBe(true);
+      expect(rows.map(row => row.price)).toEqual([...rows.map(row => row.price)].sort((a, b) => b - a));
+
+      await fireEvent.change(screen.getByLabelText('정렬'), { target: { value: 'name-asc' } });
+      await fireEvent.click(screen.getByLabelText(/^의류/));
+
+      const params = new URLSearchParams(window.location.search);
+      expect(params.get('sort')).toBe('name-asc');
+      expect(params.get('category')).toBe('도서,의류');
+      expect(params.get('min')).toBe('50000');
+
+      // 기본값으로 되돌린 조건은 URL에서 지운다.
+      await fireEvent.change(screen.getByLabelText('정렬'), { target: { value: 'id-asc' } });
+      expect(new URLSearchParams(window.location.search).has('sort')).toBe(false);
+    });
+
+    it('카테고리별 개수는 카테고리 선택과 관계없이 나머지 조건으로 센다', async () => {
+      const { container } = render(<App/>);
+      const countOf = (category: string) =>
+        Number(screen.getByText(new RegExp(`^${category} \\(`)).textContent!.replace(/[^0-9]/g, ''));
+      const total = ['전자기기', '의류', '도서', '식품'].reduce((sum, category) => sum + countOf(category), 0);
+
+      expect(total).toBe(10000);
+
+      await fireEvent.click(screen.getByLabelText(/^식품/));
+      expect(screen.getByText(`검색 결과 ${countOf('식품').toLocaleString()}개`)).toBeTruthy();
+      expect(getRows(container).every(row => row.category === '식품')).toBe(true);
+      expect(['전자기기', '의류', '도서', '식품'].reduce((sum, category) => sum + countOf(category), 0)).toBe(10000);
+    });
+
+    it('조건을 하나 바꾸면 관련된 집계만 다시 계산한다', async () => {
+      render(<App/>);
+      const sink = createBufferSink();
+      const disable = enableRenderTracing({ sink });
+      const recomputed = () => sink.records
+        .filter(record => record.name === 'ItemList' && record.source === 'useMemo')
+        .map(record => record.changes.map(change => change.key));
+
+      try {
+        await fireEvent.change(screen.getByLabelText('정렬'), { target: { value: 'price-asc' } });
+        // 정렬만 다시 계산한다.
+        expect(recomputed()).toEqual([[1]]);
+        sink.clear();
+
+        await fireEvent.click(screen.getByLabelText(/^의류/));
+        // 카테고리로 거른 목록과 그 평균, 정렬만 다시 계산하고 카테고리별 개수는 그대로 둔다.
+        expect(recomputed()).toEqual([[1], [0], [0]]);
+      } finally {
+        disable();
+      }
+    });
+  });
+
+  describe('상품 검색 지연', () => {
+    it('입력이 멈출 때까지 이전 결과와 검색 중 표시를 보여준다', async () => {
+      vi.useFakeTimers();
+      render(<App/>);
+      renderLogMock.mockClear();
+
+      const searchInput = screen.getByPlaceholderText('상품 검색...') as HTMLInputElement;
+      fireEvent.change(searchInput, { target: { value: '상품 999' } });
+
+      expect(searchInput.value).toBe('상품 999');
+      expect(screen.getByRole('status').textContent).toBe('검색 중...');
+      expect(screen.getByText(/검색 결과 10,000개/)).toBeTruthy();
+
+      act(() => vi.advanceTimersByTime(200));
+
+      expect(screen.queryByRole('status')).toBeNull();
+      expect(screen.getByText('검색 결과 11개')).toBeTruthy();
+      expect(renderLogMock).toHaveBeenCalledTimes(2);
+      expect(renderLogMock).toHaveBeenCalledWith('ItemList rendered');
+    });
+  });
+
+  describe('되돌리기 단축키', () => {
+    it('입력창에서 누른 Ctrl+Z는 브라우저에 맡기고, 화면에서 누르면 저장소의 기록을 되돌린다', async () => {
+      render(<App/>);
+      const searchInput = screen.getByPlaceholderText('상품 검색...');
+
+      // 되돌릴 기록이 없으면 어디에서 누르든 기본 동작을 막지 않는다.
+      expect(fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true })).toBe(true);
+
+      await fireEvent.click(screen.getByText('다크 모드'));
+      expect(screen.getByText('라이트 모드')).toBeTruthy();
+
+      expect(fireEvent.keyDown(searchInput, { key: 'z', ctrlKey: true })).toBe(true);
+      expect(fireEvent.keyDown(screen.getByPlaceholderText('이름'), { key: 'z', ctrlKey: true })).toBe(true);
+      expect(screen.getByText('라이트 모드')).toBeTruthy();
+
+      act(() => {
+        fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true });
+      });
+      expect(screen.getByText('다크 모드')).toBeTruthy();
+    });
+  });
+
+  describe('상품 검색 색인', () => {
+    const search = (value: string) => {
+      fireEvent.change(screen.getByPlaceholderText('상품 검색...'), { target: { value } });
+      act(() => vi.advanceTimersByTime(200));
+    };
+
+    it('초성으로 카테고리를 찾고, 맞는 부분을 강조한다', () => {
+      vi.useFakeTimers();
+      const { container } = render(<App/>);
+
+      search('ㅈㅈ');
+
+      const rows = [...container.querySelectorAll('[role="listitem"]')];
+      expect(rows.length).toBeGreaterThan(0);
+      expect(rows.every(row => row.textContent!.includes(' - 전자기기 - '))).toBe(true);
+      expect([...container.querySelectorAll('mark')].map(mark => mark.textContent)).toContain('전자');
+    });
+
+    it('상품 이름에서 맞는 상품을 먼저 보여주고, 검색어를 지우면 강조를 없앤다', () => {
+      vi.useFakeTimers();
+      const { container } = render(<App/>);
+
+      search('상품 12');
+
+      const firstRow = container.querySelector('[role="listitem"]')!;
+      expect(firstRow.textContent!.startsWith('상품 12 - ')).toBe(true);
+      expect([...firstRow.querySelectorAll('mark')].map(mark => mark.textContent)).toEqual(['상품', '12']);
+
+      search('');
+
+      expect(screen.getByText('검색 결과 10,000개')).toBeTruthy();
+      expect(container.querySelector('mark')).toBeNull();
+    });
+  });
 });
 
@@ -1,7 +1,104 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { deepEquals, deepMemo, memo, shallowEquals, useCallback, useDeepMemo, useMemo, useRef } from '../@lib';
-import { act, fireEvent, render } from "@testing-library/react";
-import React, { forwardRef, useImperativeHandle, useState } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  actionRecorder,
+  and,
+  byKeys,
+  compareRenderReports,
+  createBoundedEquals,
+  createBufferSink,
+  createConsoleSink,
+  createDeepEquals,
+  createEquals,
+  createHashedEquals,
+  createHistory,
+  createItemFixtures,
+  createLruCache,
+  createMemoryStorage,
+  createNewsFixtures,
+  createNotificationFixtures,
+  createQueryStorage,
+  createRandom,
+  createRenderRegistry,
+  createSearchEngine,
+  createSearchIndex,
+  createSelectableContext,
+  createShallowEquals,
+  createStore,
+  createStoreContext,
+  createTimeTravelScope,
+  createUserFixtures,
+  createVirtualLayout,
+  debounce,
+  deepDiff,
+  deepEquals,
+  deepMemo,
+  enableDepsLinting,
+  enableRenderTracing,
+  expectRenders,
+  formatDepsWarning,
+  formatDifference,
+  formatRenderCause,
+  getChoseong,
+  getQueryStorage,
+  getScrollOffsetForIndex,
+  getVisibleRange,
+  getWebStorage,
+  isDepsLintingEnabled,
+  isRenderTracingEnabled,
+  jumpHistory,
+  logger,
+  matchesChoseongPrefix,
+  memo,
+  memoize,
+  omitKeys,
+  or,
+  persist,
+  pushHistory,
+  shallowEquals,
+  shareStructure,
+  splitHighlights,
+  strictDeepEquals,
+  strictShallowEquals,
+  structuralHash,
+  throttle,
+  timeTravel,
+  trackReads,
+  useAsyncMemo,
+  useCallback,
+  useContextSelector,
+  useDebouncedValue,
+  useDeepAsyncMemo,
+  useDeepMemo,
+  useEvent,
+  useHistoryState,
+  useMemo,
+  useMemoCache,
+  usePersistentState,
+  useRef,
+  useRenderTracker,
+  useSearch,
+  useSearchValue,
+  useStore,
+  useThrottledCallback,
+  useUndoShortcuts,
+  VirtualList,
+  withDepth,
+  withRenderTracking,
+} from '../@lib';
+import type {
+  BufferSink,
+  DeepMemoOptions,
+  DepsWarning,
+  Middleware,
+  RenderRegistry,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+  StoreOptions,
+  VirtualListHandle,
+} from '../@lib';
+import { act, fireEvent, render, renderHook } from "@testing-library/react";
+import React, { DependencyList, StrictMode, forwardRef, useImperativeHandle, useState } from "react";
+import { generateItems } from "../utils";
 
 describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
   describe('비교 함수 구현하기 > ', () => {
@@ -77,6 +174,467 @@ describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
         expect(deepEquals(obj1, obj2)).toBe(true);
         expect(deepEquals(obj1, obj3)).toBe(false);
       });
+
+      it('NaN과 박싱된 원시 값을 비교해야 한다', () => {
+        expect(deepEquals(NaN, NaN)).toBe(true);
+        expect(deepEquals({ a: NaN }, { a: NaN })).toBe(true);
+        expect(deepEquals(0, -0)).toBe(true);
+        expect(deepEquals(new Number(1), new Number(1))).toBe(true);
+        expect(deepEquals(new Number(1), new Number(2))).toBe(false);
+        expect(deepEquals(new String('안녕'), new String('안녕'))).toBe(true);
+        expect(deepEquals(new String('1'), new Number(1))).toBe(false);
+        expect(deepEquals(new Boolean(true), new Boolean(false))).toBe(false);
+      });
+
+      it('Date와 RegExp를 값으로 비교해야 한다', () => {
+        expect(deepEquals(new Date(2024, 0, 1), new Date(2024, 0, 1))).toBe(true);
+        expect(deepEquals(new Date(2024, 0, 1), new Date(2024, 0, 2))).toBe(false);
+        expect(deepEquals(new Date(NaN), new Date(NaN))).toBe(true);
+        expect(deepEquals({ at: new Date(0) }, { at: new Date(0) })).toBe(true);
+        expect(deepEquals(new Date(0), {})).toBe(false);
+        expect(deepEquals(/a+/g, /a+/g)).toBe(true);
+        expect(deepEquals(/a+/g, /a+/i)).toBe(false);
+        expect(deepEquals(/a+/, /b+/)).toBe(false);
+      });
+
+      it('Map의 키와 값을 비교해야 한다', () => {
+        expect(deepEquals(new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]]))).toBe(true);
+        expect(deepEquals(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+        expect(deepEquals(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+        expect(deepEquals(new Map([['a', { b: [1] }]]), new Map([['a', { b: [1] }]]))).toBe(true);
+        expect(deepEquals(new Map([[{ id: 1 }, 'x']]), new Map([[{ id: 1 }, 'x']]))).toBe(true);
+        expect(deepEquals(new Map([[{ id: 1 }, 'x']]), new Map([[{ id: 2 }, 'x']]))).toBe(false);
+        expect(deepEquals(new Map(), {})).toBe(false);
+      });
+
+      it('Set의 멤버를 비교해야 한다', () => {
+        expect(deepEquals(new Set([1, 2, 3]), new Set([3, 2, 1]))).toBe(true);
+        expect(deepEquals(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+        expect(deepEquals(new Set([1]), new Set(['1']))).toBe(false);
+        expect(deepEquals(new Set([NaN]), new Set([NaN]))).toBe(true);
+        expect(deepEquals(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }]))).toBe(true);
+        expect(deepEquals(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))).toBe(false);
+        expect(deepEquals(new Set([]), [])).toBe(false);
+      });
+
+      it('ArrayBuffer와 TypedArray를 비교해야 한다', () => {
+        expect(deepEquals(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+        expect(deepEquals(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+        expect(deepEquals(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(false);
+        expect(deepEquals(new Float64Array([NaN]), new Float64Array([NaN]))).toBe(true);
+        expect(deepEquals(new Uint8Array([1, 2]), [1, 2])).toBe(false);
+        expect(deepEquals(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)).toBe(true);
+        expect(deepEquals(new Uint8Array([1, 2]).buffer, new Uint8Array([2, 1]).buffer)).toBe(false);
+        expect(deepEquals(new DataView(new ArrayBuffer(2)), new DataView(new ArrayBuffer(2)))).toBe(true);
+      });
+
+      it('undefined 값을 가진 키와 없는 키를 구분해야 한다', () => {
+        expect(deepEquals({ a: undefined }, { b: undefined })).toBe(false);
+        expect(deepEquals({ a: undefined }, { a: undefined })).toBe(true);
+      });
+
+      it('순환 참조가 있어도 같은 모양이면 같다고 판단해야 한다', () => {
+        type Node = { value: number; parent?: Node; children: Node[] };
+        const createTree = (leafValue: number) => {
+          const root: Node = { value: 0, children: [] };
+          const child: Node = { value: leafValue, parent: root, children: [] };
+          root.children.push(child);
+          return root;
+        };
+
+        expect(deepEquals(createTree(1), createTree(1))).toBe(true);
+        expect(deepEquals(createTree(1), createTree(2))).toBe(false);
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const selfA: any = { name: 'a' };
+        selfA.self = selfA;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const selfB: any = { name: 'a' };
+        selfB.self = selfB;
+        expect(deepEquals(selfA, selfB)).toBe(true);
+        expect(deepEquals([selfA], [selfB])).toBe(true);
+        expect(deepEquals(new Map([['node', selfA]]), new Map([['node', selfB]]))).toBe(true);
+        expect(deepEquals(new Set([selfA]), new Set([selfB]))).toBe(true);
+      });
+
+      it('순환의 모양이 다르면 다르다고 판단해야 한다', () => {
+        // a -> a 와 b -> c -> b 는 모양이 다르다.
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const a: any = { value: 1 };
+        a.next = a;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const b: any = { value: 1 };
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const c: any = { value: 1, next: b };
+        b.next = c;
+        expect(deepEquals(a, b)).toBe(false);
+
+        // 한쪽만 순환하는 경우
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const d: any = { value: 1 };
+        d.next = { value: 1, next: { value: 1 } };
+        expect(deepEquals(a, d)).toBe(false);
+      });
+
+      it('공유된 하위 구조는 구조적으로 비교해야 한다', () => {
+        const shared = { a: 1 };
+        expect(deepEquals({ x: shared, y: shared }, { x: { a: 1 }, y: { a: 1 } })).toBe(true);
+        expect(deepEquals({ x: shared, y: shared }, { x: { a: 1 }, y: { a: 2 } })).toBe(false);
+      });
+    });
+    describe('strict 모드 비교 함수', () => {
+      class Item {
+        constructor(public id: number, public price: number) {}
+
+        get label() {
+          return `${this.id}:${this.price}`;
+        }
+      }
+
+      it('기본 모드는 프로토타입과 배열 여부를 무시한다', () => {
+        expect(shallowEquals(new Item(1, 100), { id: 1, price: 100 })).toBe(true);
+        expect(deepEquals(new Item(1, 100), { id: 1, price: 100 })).toBe(true);
+        expect(deepEquals([1, 2], { 0: 1, 1: 2 })).toBe(true);
+      });
+
+      it('strict 모드는 프로토타입과 배열 여부를 구분한다', () => {
+        expect(strictShallowEquals(new Item(1, 100), new Item(1, 100))).toBe(true);
+        expect(strictShallowEquals(new Item(1, 100), { id: 1, price: 100 })).toBe(false);
+        expect(strictShallowEquals([1, 2], { 0: 1, 1: 2 })).toBe(false);
+        expect(strictShallowEquals([1, 2], [1, 2])).toBe(true);
+        expect(strictDeepEquals({ list: [new Item(1, 100)] }, { list: [new Item(1, 100)] })).toBe(true);
+        expect(strictDeepEquals({ list: [new Item(1, 100)] }, { list: [{ id: 1, price: 100 }] })).toBe(false);
+        expect(strictDeepEquals({ a: [1, 2] }, { a: { 0: 1, 1: 2 } })).toBe(false);
+      });
+
+      it('strict 모드는 심볼 키와 열거 불가능한 속성을 비교한다', () => {
+        const key = Symbol('key');
+        expect(shallowEquals({ [key]: 1 }, { [key]: 2 })).toBe(true);
+        expect(strictShallowEquals({ [key]: 1 }, { [key]: 1 })).toBe(true);
+        expect(strictShallowEquals({ [key]: 1 }, { [key]: 2 })).toBe(false);
+        expect(strictDeepEquals({ a: { [key]: [1] } }, { a: { [key]: [2] } })).toBe(false);
+
+        const hidden = Object.defineProperty({}, 'secret', { value: 1, enumerable: false });
+        const other = Object.defineProperty({}, 'secret', { value: 2, enumerable: false });
+        expect(deepEquals(hidden, other)).toBe(true);
+        expect(strictDeepEquals(hidden, other)).toBe(false);
+        expect(createDeepEquals({ strict: { nonEnumerable: false } })(hidden, other)).toBe(true);
+      });
+
+      it('getters 옵션을 켜면 프로토타입 getter 결과를 비교한다', () => {
+        class Price {
+          constructor(private value: number, private discount: number) {}
+
+          get total() {
+            return this.value - this.discount;
+          }
+        }
+
+        const strictWithGetters = createDeepEquals({ strict: { getters: true, nonEnumerable: false } });
+        expect(strictWithGetters(new Item(1, 100), new Item(1, 100))).toBe(true);
+        expect(createShallowEquals({ strict: { getters: true } })(new Item(1, 100), new Item(1, 100))).toBe(true);
+        expect(strictWithGetters(new Price(100, 10), new Price(100, 10))).toBe(true);
+        expect(strictWithGetters(new Price(100, 10), new Price(110, 20))).toBe(false);
+        expect(createDeepEquals({ strict: { getters: true } })(new Date(0), new Date(0))).toBe(true);
+      });
+    });
+    describe('deepDiff 함수', () => {
+      it('같은 값이면 빈 목록을 돌려준다', () => {
+        expect(deepDiff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+        expect(deepDiff(NaN, NaN)).toEqual([]);
+      });
+
+      it('경로와 함께 변경 내용을 알려준다', () => {
+        const before = { items: [{ price: 1000 }, { price: 1200 }] };
+        const after = { items: [{ price: 1000 }, { price: 1500 }] };
+
+        const differences = deepDiff(before, after);
+        expect(differences).toEqual([
+          { type: 'changed', path: 'items[1].price', before: 1200, after: 1500 },
+        ]);
+        expect(differences.map(formatDifference)).toEqual(['items[1].price: 1200 → 1500']);
+      });
+
+      it('추가, 삭제, 타입 변경을 구분한다', () => {
+        const differences = deepDiff(
+          { a: 1, b: 'x', list: [1, 2], 'my key': true },
+          { a: '1', list: [1], c: null, 'my key': true }
+        );
+
+        expect(differences).toEqual([
+          { type: 'type-changed', path: 'a', before: 1, after: '1' },
+          { type: 'removed', path: 'b', before: 'x' },
+          { type: 'removed', path: 'list[1]', before: 2 },
+          { type: 'added', path: 'c', after: null },
+        ]);
+        expect(differences.map(formatDifference)).toEqual([
+          'a: 1 → "1" (type changed)',
+          'b: - "x"',
+          'list[1]: - 2',
+          'c: + null',
+        ]);
+        expect(deepDiff({ 'my key': 1 }, { 'my key': 2 }).map(formatDifference)).toEqual(['["my key"]: 1 → 2']);
+      });
+
+      it('Map, Set, Date의 변경을 알려준다', () => {
+        expect(deepDiff(new Map([['a', 1]]), new Map([['a', 2], ['b', 3]]))).toEqual([
+          { type: 'changed', path: '["a"]', before: 1, after: 2 },
+          { type: 'added', path: '["b"]', after: 3 },
+        ]);
+        expect(deepDiff(new Set([1, 2]), new Set([2, 3]))).toEqual([
+          { type: 'removed', path: '', before: 1 },
+          { type: 'added', path: '', after: 3 },
+        ]);
+        expect(deepDiff({ at: new Date(0) }, { at: new Date(1000) }).map(formatDifference)).toEqual([
+          'at: 1970-01-01T00:00:00.000Z → 1970-01-01T00:00:01.000Z',
+        ]);
+        expect(deepDiff({ at: new Date(0) }, { at: new Map() })[0].type).toBe('type-changed');
+      });
+
+      it('strict 옵션을 deepEquals와 같은 규칙으로 적용한다', () => {
+        class Item {
+          constructor(public id: number) {}
+        }
+        expect(deepDiff([new Item(1)], [{ id: 1 }])).toEqual([]);
+        const differences = deepDiff([new Item(1)], [{ id: 1 }], { strict: true });
+        expect(differences.map(({ type, path }) => ({ type, path }))).toEqual([
+          { type: 'type-changed', path: '[0]' },
+        ]);
+      });
+
+      it('deepEquals와 결과가 항상 일치한다', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cyclic: any = { value: 1 };
+        cyclic.self = cyclic;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const otherCyclic: any = { value: 1 };
+        otherCyclic.self = { value: 1, self: otherCyclic };
+
+        const samples = [
+          1, '1', NaN, null, undefined, [1, 2], [1, 2, 3], { 0: 1, 1: 2 }, { a: { b: [1] } }, { a: { b: [2] } },
+          new Date(0), new Date(1), /a/g, /a/i, new Map([[{ id: 1 }, 'x']]), new Map([[{ id: 2 }, 'x']]),
+          new Set([{ a: 1 }]), new Set([{ a: 2 }]), new Uint8Array([1]), new Int8Array([1]), cyclic, otherCyclic,
+        ];
+
+        for (const a of samples) {
+          for (const b of samples) {
+            expect(deepDiff(a, b).length === 0).toBe(deepEquals(a, b));
+            expect(deepDiff(a, structuredClone(a)).length === 0).toBe(deepEquals(a, structuredClone(a)));
+          }
+        }
+      });
+    });
+    describe('createEquals 비교 함수 조합', () => {
+      it('키마다 다른 전략으로 비교한다', () => {
+        const items = [{ id: 1 }];
+        const equals = createEquals({ items: 'ref', filters: 'deep', onChange: 'ignore', default: 'shallow' });
+
+        const base = { items, filters: { category: ['도서'] }, onChange: () => {}, style: { color: 'red' } };
+        expect(equals(base, { ...base, filters: { category: ['도서'] }, onChange: () => {} })).toBe(true);
+        expect(equals(base, { ...base, items: [{ id: 1 }] })).toBe(false);
+        expect(equals(base, { ...base, filters: { category: ['식품'] } })).toBe(false);
+        // default: shallow
+        expect(equals({ style: { color: 'red' } }, { style: { color: 'red' } })).toBe(true);
+        expect(equals({ style: { color: 'red', nested: {} } }, { style: { color: 'red', nested: {} } })).toBe(false);
+      });
+
+      it('기본 전략은 참조 비교이고, 한쪽에만 있는 키는 다르다고 본다', () => {
+        const equals = createEquals({ onChange: 'ignore' });
+        expect(equals({ a: 1 }, { a: 1 })).toBe(true);
+        expect(equals({ a: {} }, { a: {} })).toBe(false);
+        expect(equals({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(equals({ a: 1 }, { a: 1, onChange: () => {} })).toBe(true);
+        expect(equals(null, { a: 1 })).toBe(false);
+      });
+
+      it('사용자 정의 비교 함수를 전략으로 사용할 수 있다', () => {
+        const equals = createEquals({
+          price: (a, b) => Math.abs((a as number) - (b as number)) < 100,
+        });
+        expect(equals({ price: 1000 }, { price: 1050 })).toBe(true);
+        expect(equals({ price: 1000 }, { price: 1200 })).toBe(false);
+      });
+
+      it('and, or로 비교 함수를 조합한다', () => {
+        const sameLength = (a: unknown, b: unknown) => (a as unknown[]).length === (b as unknown[]).length;
+        expect(and(sameLength, 'deep')([1, 2], [1, 2])).toBe(true);
+        expect(and(sameLength, 'deep')([1, 2], [1, 3])).toBe(false);
+        expect(or(sameLength, 'deep')([1, 2], [1, 3])).toBe(true);
+        expect(or('ref', 'shallow')([1], [2])).toBe(false);
+      });
+
+      it('byKeys, omitKeys로 비교할 키를 고른다', () => {
+        expect(byKeys(['id'])({ id: 1, name: 'a' }, { id: 1, name: 'b' })).toBe(true);
+        expect(byKeys(['id'])({ id: 1 }, { id: 2 })).toBe(false);
+        expect(byKeys(['meta'], 'deep')({ meta: { a: 1 }, x: 1 }, { meta: { a: 1 }, x: 2 })).toBe(true);
+        expect(omitKeys(['onChange'])({ a: 1, onChange: () => {} }, { a: 1, onChange: () => {} })).toBe(true);
+        expect(omitKeys(['onChange'])({ a: 1 }, { a: 2 })).toBe(false);
+      });
+
+      it('withDepth로 지정한 깊이까지만 값으로 비교한다', () => {
+        const obj1 = { a: 1, b: { c: { d: 1 } } };
+        const obj2 = { a: 1, b: { c: { d: 1 } } };
+        expect(withDepth(0)(obj1, obj2)).toBe(false);
+        expect(withDepth(0)(obj1, obj1)).toBe(true);
+        expect(withDepth(1)(obj1, obj2)).toBe(false);
+        expect(withDepth(1)({ a: 1 }, { a: 1 })).toBe(true);
+        expect(withDepth(2)(obj1, obj2)).toBe(false);
+        expect(withDepth(3)(obj1, obj2)).toBe(true);
+        expect(withDepth(3)(obj1, { a: 1, b: { c: { d: 2 } } })).toBe(false);
+      });
+
+      it('조합한 비교 함수를 다른 조합의 전략으로 넘길 수 있다', () => {
+        const equals = createEquals({ filters: withDepth(2), item: or('ref', byKeys(['id'])) });
+        expect(equals({ filters: { a: [1] }, item: { id: 1, v: 1 } }, { filters: { a: [1] }, item: { id: 1, v: 2 } })).toBe(true);
+        expect(equals({ filters: { a: [[1]] }, item: { id: 1 } }, { filters: { a: [[1]] }, item: { id: 1 } })).toBe(false);
+        expect(equals({ filters: { a: 1 }, item: { id: 1 } }, { filters: { a: 1 }, item: { id: 2 } })).toBe(false);
+      });
+    });
+    describe('제한된 깊은 비교', () => {
+      const obj1 = { a: { b: { c: { d: 1 } } }, e: [1, 2, 3] };
+      const obj2 = { a: { b: { c: { d: 1 } } }, e: [1, 2, 3] };
+
+      it('maxDepth에 도달하면 참조 비교로 대신한다', () => {
+        const shared = { d: 1 };
+        expect(createDeepEquals({ maxDepth: 2 })(obj1, obj2)).toBe(false);
+        expect(createDeepEquals({ maxDepth: 4 })(obj1, obj2)).toBe(true);
+        expect(createDeepEquals({ maxDepth: 2 })({ a: { c: shared } }, { a: { c: shared } })).toBe(true);
+      });
+
+      it('maxNodes 예산을 다 쓰면 남은 값은 참조로 비교한다', () => {
+        // obj1의 객체 쌍: 최상위, a, b, c, e 총 5개
+        expect(createDeepEquals({ maxNodes: 5 })(obj1, obj2)).toBe(true);
+        expect(createDeepEquals({ maxNodes: 4 })(obj1, obj2)).toBe(false);
+      });
+
+      it('onLimit이 unequal이면 제한에 걸리는 즉시 다르다고 판단한다', () => {
+        const shared = { x: 1 };
+        const a = { first: { y: 1 }, second: shared };
+        const b = { first: { y: 1 }, second: shared };
+        expect(createDeepEquals({ maxNodes: 1, onLimit: 'reference' })(a, b)).toBe(false);
+        expect(createDeepEquals({ maxNodes: 2, onLimit: 'unequal' })(a, b)).toBe(true);
+        expect(createDeepEquals({ maxNodes: 1, onLimit: 'unequal' })(a, b)).toBe(false);
+        expect(deepDiff(a, b, { maxNodes: 1, onLimit: 'unequal' })).toEqual([
+          { type: 'changed', path: 'first', before: a.first, after: b.first },
+        ]);
+      });
+
+      it('제한에 걸린 횟수를 stats로 알려준다', () => {
+        const onLimitExceeded = vi.fn();
+        const equals = createBoundedEquals({ maxNodes: 100, onLimitExceeded });
+        const items = generateItems(10000);
+
+        expect(equals(items, items.map((item) => ({ ...item })))).toBe(false);
+        expect(equals(items.slice(0, 10), items.slice(0, 10).map((item) => ({ ...item })))).toBe(true);
+        expect(equals(obj1, obj2)).toBe(true);
+
+        expect(equals.stats).toEqual({ comparisons: 3, exceeded: 1, depthExceeded: 0, nodesExceeded: 1 });
+        expect(onLimitExceeded).toHaveBeenCalledWith(['nodes']);
+
+        createBoundedEquals({ maxDepth: 1, onLimitExceeded })(obj1, obj2);
+        expect(onLimitExceeded).toHaveBeenLastCalledWith(['depth']);
+
+        equals.resetStats();
+        expect(equals.stats).toEqual({ comparisons: 0, exceeded: 0, depthExceeded: 0, nodesExceeded: 0 });
+      });
+    });
+    describe('structuralHash 함수', () => {
+      it('deepEquals가 같다고 보는 값은 같은 해시를 가진다', () => {
+        expect(structuralHash({ a: 1, b: [1, 2] })).toBe(structuralHash({ b: [1, 2], a: 1 }));
+        expect(structuralHash(NaN)).toBe(structuralHash(NaN));
+        expect(structuralHash(0)).toBe(structuralHash(-0));
+        expect(structuralHash([1, 2])).toBe(structuralHash({ 0: 1, 1: 2 }));
+        expect(structuralHash(new Map([['a', 1], ['b', 2]]))).toBe(structuralHash(new Map([['b', 2], ['a', 1]])));
+        expect(structuralHash(new Set([{ a: 1 }, 2]))).toBe(structuralHash(new Set([2, { a: 1 }])));
+        expect(structuralHash(new Date(0))).toBe(structuralHash(new Date(0)));
+        expect(structuralHash(new Uint8Array([1, 2]))).toBe(structuralHash(new Uint8Array([1, 2])));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cyclicA: any = { value: 1 };
+        cyclicA.self = cyclicA;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cyclicB: any = { value: 1 };
+        cyclicB.self = cyclicB;
+        expect(structuralHash(cyclicA)).toBe(structuralHash(cyclicB));
+      });
+
+      it('다른 값은 대부분 다른 해시를 가진다', () => {
+        expect(structuralHash({ a: 1 })).not.toBe(structuralHash({ a: 2 }));
+        expect(structuralHash({ a: 1 })).not.toBe(structuralHash({ b: 1 }));
+        expect(structuralHash([1, 2])).not.toBe(structuralHash([2, 1]));
+        expect(structuralHash('1')).not.toBe(structuralHash(1));
+        expect(structuralHash(null)).not.toBe(structuralHash(undefined));
+        expect(structuralHash(new Date(0))).not.toBe(structuralHash(new Date(1)));
+        expect(structuralHash(/a/g)).not.toBe(structuralHash(/a/i));
+        expect(structuralHash(new Uint8Array([1]))).not.toBe(structuralHash(new Int8Array([1])));
+      });
+
+      it('해시를 먼저 비교해도 deepEquals와 결과가 같다', () => {
+        const hashedEquals = createHashedEquals();
+        const samples = [
+          1, '1', NaN, null, [1, 2], { 0: 1, 1: 2 }, { a: { b: [1] } }, { a: { b: [2] } },
+          new Date(0), new Date(1), new Map([[{ id: 1 }, 'x']]), new Map([[{ id: 2 }, 'x']]),
+          new Set([{ a: 1 }]), new Set([{ a: 2 }]), new Uint8Array([1]), new Int8Array([1]),
+        ];
+
+        for (const a of samples) {
+          for (const b of samples) {
+            expect(hashedEquals(a, b)).toBe(deepEquals(a, b));
+          }
+          expect(hashedEquals(a, structuredClone(a))).toBe(true);
+        }
+      });
+
+      it('immutable 옵션은 객체별 해시를 캐시하고, 해시가 다르면 깊은 비교를 건너뛴다', () => {
+        const equals = vi.fn(deepEquals);
+        const hashedEquals = createHashedEquals({ immutable: true, equals });
+        const items = generateItems(100);
+
+        expect(hashedEquals(items, [...items])).toBe(true);
+        expect(equals).toHaveBeenCalledTimes(1);
+
+        expect(hashedEquals(items, [...items.slice(0, 99), { ...items[99], price: -1 }])).toBe(false);
+        expect(equals).toHaveBeenCalledTimes(1);
+      });
+
+      it('반복되는 큰 불변 스냅샷 비교에서 해시는 스냅샷마다 한 번씩만 읽는다', () => {
+        // 상품 목록의 불변 스냅샷들. 각 스냅샷은 마지막 상품의 가격만 다르다.
+        // (되돌리기 기록을 오가듯) 같은 스냅샷들을 여러 번 비교하면서 스냅샷을 읽은 횟수를 센다.
+        let reads = 0;
+        const items = generateItems(1000);
+        const snapshots = Array.from({ length: 20 }, (_, version) =>
+          new Proxy([...items.slice(0, -1), { ...items[items.length - 1], price: version }], {
+            get(target, key, receiver) {
+              reads++;
+              return Reflect.get(target, key, receiver);
+            },
+          })
+        );
+
+        const measure = (equals: (a: unknown, b: unknown) => boolean) => {
+          const results: boolean[] = [];
+          reads = 0;
+          for (let round = 0; round < 20; round++) {
+            for (let i = 1; i < snapshots.length; i++) {
+              results.push(equals(snapshots[i - 1], snapshots[i]));
+            }
+          }
+          return { results, reads };
+        };
+
+        const equals = vi.fn(deepEquals);
+        const deep = measure(deepEquals);
+        const hashed = measure(createHashedEquals({ immutable: true, equals }));
+
+        expect(hashed.results).toEqual(deep.results);
+        // 스냅샷의 해시가 모두 다르므로 깊은 비교를 하지 않는다.
+        expect(equals).not.toHaveBeenCalled();
+        // deepEquals는 비교할 때마다 스냅샷 전체를 읽지만, 해시는 스냅샷마다 한 번만 읽고 캐시를 사용한다.
+        reads = 0;
+        structuralHash(snapshots[0]);
+        expect(hashed.reads).toBe(reads * snapshots.length);
+        expect(hashed.reads).toBeLessThan(deep.reads);
+      });
     });
   })
 
@@ -472,6 +1030,46 @@ describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
       });
     });
 
+    describe('StrictMode에서의 useMemo 동작', () => {
+      const values = new Set<object>();
+
+      const TestComponent = ({ dep, factory }: { dep: number; factory: () => object }) => {
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        const value = useMemo(factory, [dep]);
+        values.add(value);
+        return null;
+      };
+
+      beforeEach(() => {
+        values.clear();
+      });
+
+      it('마운트 시에는 React처럼 두 번 렌더링되며 factory도 두 번 실행된다', () => {
+        const factory = vi.fn(() => ({}));
+        render(<StrictMode><TestComponent dep={1} factory={factory}/></StrictMode>);
+
+        // StrictMode는 마운트 시 컴포넌트를 두 번 호출하고, 두 호출의 상태는 공유되지 않는다.
+        expect(factory).toHaveBeenCalledTimes(2);
+      });
+
+      it('업데이트 시 deps가 같으면 factory를 실행하지 않고, 다르면 한 번만 실행한다', () => {
+        const factory = vi.fn(() => ({}));
+        const { rerender } = render(<StrictMode><TestComponent dep={1} factory={factory}/></StrictMode>);
+        factory.mockClear();
+        const committedValues = values.size;
+
+        rerender(<StrictMode><TestComponent dep={1} factory={factory}/></StrictMode>);
+        expect(factory).not.toHaveBeenCalled();
+        expect(values.size).toBe(committedValues);
+
+        // 두 번의 렌더링이 같은 ref를 공유하므로, 첫 번째 렌더링에서 계산한 값을 두 번째 렌더링이 재사용한다.
+        // (React의 useMemo는 StrictMode에서 factory를 두 번 호출한다)
+        rerender(<StrictMode><TestComponent dep={2} factory={factory}/></StrictMode>);
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(values.size).toBe(committedValues + 1);
+      });
+    });
+
     describe('useDeepMemo 훅', () => {
       const mockFactory = vi.fn();
 
@@ -539,6 +1137,102 @@ describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
         expect(mockFactory).toHaveBeenCalledTimes(4);
       });
     });
+    describe('참조를 유지하는 useCallback, useDeepMemo', () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const TestComponent = forwardRef<{ updateDeps: (newDeps: any[]) => void }, {
+        initialDeps: unknown[];
+        onRender: (values: { callback: () => void; deepValue: object }) => void;
+        equals?: (a: readonly unknown[], b: readonly unknown[]) => boolean;
+        options?: DeepMemoOptions;
+      }>(({ initialDeps, onRender, equals, options }, ref) => {
+        const [deps, setDeps] = useState(initialDeps);
+
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        const callback = useCallback(() => {}, deps, equals);
+        const deepValue = useDeepMemo(() => ({ deps }), deps, options);
+        onRender({ callback, deepValue });
+
+        useImperativeHandle(ref, () => ({
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          updateDeps: (newDeps: any) => setDeps(newDeps),
+        }))
+
+        return null;
+      });
+
+      it('useCallback은 주입한 비교 함수로 deps를 비교해 같은 함수를 돌려준다', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const ref: { current: any } = { current: null };
+        const onRender = vi.fn();
+        render(<TestComponent ref={ref} initialDeps={[{ a: 1 }]} onRender={onRender} equals={deepEquals}/>);
+        const initialCallback = onRender.mock.lastCall?.[0].callback;
+
+        act(() => {
+          ref.current.updateDeps([{ a: 1 }])
+        })
+        expect(onRender).toHaveBeenCalledTimes(2);
+        expect(onRender.mock.lastCall?.[0].callback).toBe(initialCallback);
+
+        act(() => {
+          ref.current.updateDeps([{ a: 2 }])
+        })
+        expect(onRender.mock.lastCall?.[0].callback).not.toBe(initialCallback);
+      });
+
+      it('useDeepMemo는 깊게 같은 deps라면 같은 값을 유지한다', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const ref: { current: any } = { current: null };
+        const onRender = vi.fn();
+        render(<TestComponent ref={ref} initialDeps={[{ a: [1, 2] }]} onRender={onRender}/>);
+        const initialValue = onRender.mock.lastCall?.[0].deepValue;
+        const initialCallback = onRender.mock.lastCall?.[0].callback;
+
+        act(() => {
+          ref.current.updateDeps([{ a: [1, 2] }])
+        })
+        expect(onRender.mock.lastCall?.[0].deepValue).toBe(initialValue);
+        // 기본 useCallback은 얕은 비교이므로 새로 만들어진다.
+        expect(onRender.mock.lastCall?.[0].callback).not.toBe(initialCallback);
+
+        act(() => {
+          ref.current.updateDeps([{ a: [1, 3] }])
+        })
+        expect(onRender.mock.lastCall?.[0].deepValue).not.toBe(initialValue);
+      });
+
+      it('useDeepMemo에 비교 함수와 해시 옵션을 주입할 수 있다', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const ref: { current: any } = { current: null };
+        const onRender = vi.fn();
+        const equals = vi.fn(strictDeepEquals);
+        class Point {
+          constructor(public x: number) {}
+        }
+        render(
+          <TestComponent ref={ref} initialDeps={[new Point(1)]} onRender={onRender} options={{ equals, hash: true }}/>
+        );
+        const initialValue = onRender.mock.lastCall?.[0].deepValue;
+
+        act(() => {
+          ref.current.updateDeps([new Point(1)])
+        })
+        expect(onRender.mock.lastCall?.[0].deepValue).toBe(initialValue);
+        expect(equals).toHaveBeenCalledTimes(1);
+
+        // 해시는 같지만 strict 비교에서는 다르다.
+        act(() => {
+          ref.current.updateDeps([{ x: 1 }])
+        })
+        expect(onRender.mock.lastCall?.[0].deepValue).not.toBe(initialValue);
+        expect(equals).toHaveBeenCalledTimes(2);
+
+        // 해시가 다르면 비교 함수를 호출하지 않는다.
+        act(() => {
+          ref.current.updateDeps([{ x: 2 }])
+        })
+        expect(equals).toHaveBeenCalledTimes(2);
+      });
+    });
   })
 
   describe('hoc 만들어보기', () => {
@@ -586,6 +1280,99 @@ describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
       });
     })
 
+    describe('memo HOC', () => {
+      it('비교 함수를 전달하면 비교 함수가 같다고 판단할 때 리렌더링하지 않는다.', () => {
+        const equals = vi.fn((prev: { value: number }, next: { value: number }) =>
+          Math.floor(prev.value / 10) === Math.floor(next.value / 10)
+        );
+        const MemoizedComponent = memo(TestComponent, equals);
+        const { rerender } = render(<MemoizedComponent value={1} />);
+
+        rerender(<MemoizedComponent value={9} />);
+        expect(TestComponent).toHaveBeenCalledTimes(1);
+        expect(equals).toHaveBeenLastCalledWith({ value: 1 }, { value: 9 });
+
+        rerender(<MemoizedComponent value={10} />);
+        expect(TestComponent).toHaveBeenCalledTimes(2);
+      });
+
+      it('displayName은 Memo(컴포넌트 이름)이다.', () => {
+        function Header() {
+          return <header />;
+        }
+        const Footer = () => <footer />;
+        Footer.displayName = 'PageFooter';
+
+        expect(memo(Header).displayName).toBe('Memo(Header)');
+        expect(memo(Footer).displayName).toBe('Memo(PageFooter)');
+        expect(memo(() => null).displayName).toBe('Memo(Component)');
+      });
+
+      it('forwardRef로 만든 컴포넌트에 ref를 전달한다.', () => {
+        const Input = forwardRef<HTMLInputElement, { value: string }>(({ value }, ref) => (
+          <input ref={ref} defaultValue={value} />
+        ));
+        Input.displayName = 'Input';
+        const MemoizedInput = memo(Input);
+        const ref = React.createRef<HTMLInputElement>();
+
+        render(<MemoizedInput ref={ref} value="hello" />);
+
+        expect(MemoizedInput.displayName).toBe('Memo(Input)');
+        expect(ref.current).toBeInstanceOf(HTMLInputElement);
+        expect(ref.current?.value).toBe('hello');
+      });
+
+      it('ref가 바뀌면 props가 같아도 새로운 ref에 연결한다.', () => {
+        const renderInput = vi.fn();
+        const Input = forwardRef<HTMLInputElement, { value: string }>(({ value }, ref) => {
+          renderInput();
+          return <input ref={ref} defaultValue={value} />;
+        });
+        const MemoizedInput = memo(Input);
+        const firstRef = React.createRef<HTMLInputElement>();
+        const secondRef = React.createRef<HTMLInputElement>();
+
+        const { rerender } = render(<MemoizedInput ref={firstRef} value="a" />);
+        rerender(<MemoizedInput ref={firstRef} value="a" />);
+        expect(renderInput).toHaveBeenCalledTimes(1);
+
+        rerender(<MemoizedInput ref={secondRef} value="a" />);
+        expect(renderInput).toHaveBeenCalledTimes(2);
+        expect(secondRef.current).toBeInstanceOf(HTMLInputElement);
+      });
+
+      it('감싼 컴포넌트의 정적 속성을 옮겨온다.', () => {
+        const Title = () => <h1 />;
+        const Header = Object.assign(() => <header />, { Title, version: 2 });
+
+        const MemoizedHeader = memo(Header) as typeof Header;
+
+        expect(MemoizedHeader.Title).toBe(Title);
+        expect(MemoizedHeader.version).toBe(2);
+      });
+
+      it('props가 같아도 컨텍스트가 바뀌면 리렌더링 된다.', () => {
+        const ThemeContext = React.createContext('light');
+        const renderTheme = vi.fn();
+        const Theme = memo(({ label }: { label: string }) => {
+          const theme = React.useContext(ThemeContext);
+          renderTheme();
+          return <span data-testid="theme">{`${label}:${theme}`}</span>;
+        });
+
+        const { rerender, getByTestId } = render(
+          <ThemeContext.Provider value="light"><Theme label="theme" /></ThemeContext.Provider>
+        );
+        rerender(<ThemeContext.Provider value="light"><Theme label="theme" /></ThemeContext.Provider>);
+        expect(renderTheme).toHaveBeenCalledTimes(1);
+
+        rerender(<ThemeContext.Provider value="dark"><Theme label="theme" /></ThemeContext.Provider>);
+        expect(renderTheme).toHaveBeenCalledTimes(2);
+        expect(getByTestId('theme').textContent).toBe('theme:dark');
+      });
+    });
+
     describe('deepMemo HOC', () => {
 
       it('props로 전달하는 값이 모두 변경되어야 리렌더링 된다.', () => {
@@ -641,4 +1428,1810 @@ describe('Chapter 1-3 기본과제: hooks 구현하기 > ', () => {
       });
     });
   })
+
+  describe('렌더링 원인 기록', () => {
+    let sink: BufferSink;
+    let disable: () => void;
+
+    beforeEach(() => {
+      sink = createBufferSink();
+      disable = enableRenderTracing({ sink });
+    });
+
+    afterEach(() => {
+      disable();
+    });
+
+    it('useMemo는 다시 계산할 때 바뀐 deps 인덱스와 변경 내용을 기록한다.', () => {
+      function PriceList({ items, tax }: { items: { price: number }[]; tax: number }) {
+        const total = useMemo(() => items.reduce((sum, item) => sum + item.price, 0) * tax, [items, tax]);
+        return <span>{total}</span>;
+      }
+
+      const { rerender } = render(<PriceList items={[{ price: 1200 }]} tax={1} />);
+      rerender(<PriceList items={[{ price: 1500 }]} tax={1} />);
+
+      expect(sink.records.map(({ source, name, reason }) => ({ source, name, reason }))).toEqual([
+        { source: 'useMemo', name: 'PriceList', reason: 'mount' },
+        { source: 'useMemo', name: 'PriceList', reason: 'update' },
+      ]);
+      const [change] = sink.records[1].changes;
+      expect(change.key).toBe(0);
+      expect(change.before).toEqual([{ price: 1200 }]);
+      expect(change.after).toEqual([{ price: 1500 }]);
+      expect(formatRenderCause(sink.records[1])).toBe(
+        '[useMemo] PriceList update: deps[0]\n  deps[0][0].price: 1200 → 1500'
+      );
+    });
+
+    it('useCallback과 useDeepMemo도 어떤 훅인지 함께 기록한다.', () => {
+      function Form({ id, filter }: { id: number; filter: object }) {
+        useCallback(() => id, [id]);
+        useDeepMemo(() => filter, [filter]);
+        return null;
+      }
+
+      const { rerender } = render(<Form id={1} filter={{ q: 'a' }} />);
+      sink.clear();
+      rerender(<Form id={2} filter={{ q: 'a' }} />);
+
+      expect(sink.records.map(({ source, changes }) => [source, changes.map((change) => change.key)])).toEqual([
+        ['useCallback', [0]],
+      ]);
+    });
+
+    it('memo는 다시 렌더링할 때 바뀐 prop 키를 기록하고, 참조만 바뀐 값을 구분한다.', () => {
+      const Header = memo(function Header({ title }: { title: string; style?: object }) {
+        return <header>{title}</header>;
+      });
+
+      const { rerender } = render(<Header title="a" style={{ color: '#09F' }} />);
+      rerender(<Header title="b" style={{ color: '#09F' }} />);
+
+      const record = sink.records[1];
+      expect(record.source).toBe('memo');
+      expect(record.name).toBe('Memo(Header)');
+      expect(record.changes.map((change) => change.key)).toEqual(['title', 'style']);
+      expect(formatRenderCause(record)).toBe(
+        [
+          '[memo] Memo(Header) update: title, style',
+          '  title: "a" → "b"',
+          '  style: new reference, equal value',
+        ].join('\n')
+      );
+    });
+
+    it('memo가 렌더링을 건너뛰면 기록하지 않는다.', () => {
+      const DeepHeader = deepMemo(function DeepHeader({ style }: { style: object }) {
+        return <header style={style} />;
+      });
+
+      const { rerender } = render(<DeepHeader style={{ color: '#09F' }} />);
+      rerender(<DeepHeader style={{ color: '#09F' }} />);
+
+      expect(sink.records).toHaveLength(1);
+      expect(sink.records[0].reason).toBe('mount');
+    });
+
+    it('기록을 끄면 더 이상 sink에 전달하지 않는다.', () => {
+      function Counter({ count }: { count: number }) {
+        return <span>{useMemo(() => count * 2, [count])}</span>;
+      }
+
+      const { rerender } = render(<Counter count={1} />);
+      disable();
+      rerender(<Counter count={2} />);
+
+      expect(isRenderTracingEnabled()).toBe(false);
+      expect(sink.records).toHaveLength(1);
+    });
+
+    it('콘솔 sink는 읽기 쉬운 문자열로 출력한다.', () => {
+      const log = vi.fn();
+      disable = enableRenderTracing({ sink: createConsoleSink(log) });
+      function Counter({ count }: { count: number }) {
+        return <span>{useMemo(() => count * 2, [count])}</span>;
+      }
+
+      const { rerender } = render(<Counter count={1} />);
+      rerender(<Counter count={2} />);
+
+      expect(log).toHaveBeenLastCalledWith('[useMemo] Counter update: deps[0]\n  deps[0]: 1 → 2');
+    });
+  });
+
+  describe('렌더링 프로파일러', () => {
+    let registry: RenderRegistry;
+
+    beforeEach(() => {
+      registry = createRenderRegistry();
+    });
+
+    it('useRenderTracker는 커밋마다 렌더링 횟수와 시간을 기록한다.', () => {
+      function Counter({ count }: { count: number }) {
+        useRenderTracker('Counter', registry);
+        return <span>{count}</span>;
+      }
+
+      const { rerender } = render(<Counter count={1} />);
+      rerender(<Counter count={2} />);
+
+      const stats = registry.get('Counter');
+      expect(stats?.count).toBe(2);
+      expect(stats?.commits).toHaveLength(2);
+      expect(stats?.commits.every(({ duration, timestamp }) => duration >= 0 && timestamp > 0)).toBe(true);
+      expect(stats?.averageDuration).toBe(stats!.totalDuration / 2);
+    });
+
+    it('StrictMode의 이중 렌더링은 한 번으로 센다.', () => {
+      function Counter({ count }: { count: number }) {
+        useRenderTracker('Counter', registry);
+        return <span>{count}</span>;
+      }
+
+      const { rerender } = render(<StrictMode><Counter count={1} /></StrictMode>);
+      expect(registry.count('Counter')).toBe(1);
+
+      rerender(<StrictMode><Counter count={2} /></StrictMode>);
+      expect(registry.count('Counter')).toBe(2);
+    });
+
+    it('expectRenders는 기대한 렌더링 횟수와 다르면 에러를 던지고, 확인 후 기록을 비운다.', () => {
+      function Item() {
+        useRenderTracker('Item', registry);
+        return null;
+      }
+      const { rerender } = render(<Item />);
+
+      expect(() => expectRenders({ Item: 1, Header: 0 }, registry)).not.toThrow();
+      expect(registry.counts()).toEqual({});
+
+      rerender(<Item />);
+      rerender(<Item />);
+      expect(() => expectRenders({ Item: 1, Header: 1 }, registry)).toThrow(
+        'Unexpected render counts\n  Item: expected 1, received 2\n  Header: expected 1, received 0'
+      );
+    });
+
+    it('withRenderTracking은 하위 컴포넌트의 상태 변경으로 인한 커밋도 기록한다.', () => {
+      function Toggle() {
+        const [on, setOn] = useState(false);
+        return <button onClick={() => setOn(!on)}>{on ? 'on' : 'off'}</button>;
+      }
+      const TrackedToggle = withRenderTracking(Toggle, undefined, registry);
+
+      const { getByRole } = render(<TrackedToggle />);
+      fireEvent.click(getByRole('button'));
+
+      expect(TrackedToggle.displayName).toBe('Tracked(Toggle)');
+      expect(registry.count('Toggle')).toBe(2);
+    });
+
+    it('JSON 리포트로 최적화 전후의 렌더링 횟수를 비교할 수 있다.', () => {
+      registry.record('Header', { timestamp: 1, duration: 2 });
+      registry.record('Header', { timestamp: 2, duration: 4 });
+      registry.record('ItemList', { timestamp: 2, duration: 10 });
+      const before = JSON.parse(JSON.stringify(registry));
+
+      expect(before.components.Header).toEqual({
+        count: 2,
+        totalDuration: 6,
+        averageDuration: 3,
+        maxDuration: 4,
+        commits: [{ timestamp: 1, duration: 2 }, { timestamp: 2, duration: 4 }],
+      });
+
+      registry.reset();
+      registry.record('Header', { timestamp: 3, duration: 1 });
+
+      expect(compareRenderReports(before, registry.toJSON())).toEqual({
+        Header: { before: 2, after: 1, delta: -1 },
+        ItemList: { before: 1, after: 0, delta: -1 },
+      });
+    });
+
+    it('최근 commitLimit개의 커밋만 보관하고, 횟수와 시간은 모두 센다.', () => {
+      const limited = createRenderRegistry({ commitLimit: 2 });
+      [1, 5, 3].forEach((duration, index) => limited.record('Header', { timestamp: index, duration }));
+
+      expect(limited.get('Header')).toEqual({
+        count: 3,
+        totalDuration: 9,
+        averageDuration: 3,
+        maxDuration: 5,
+        commits: [{ timestamp: 1, duration: 5 }, { timestamp: 2, duration: 3 }],
+      });
+    });
+
+    it('꺼진 저장소는 기록하지 않고, withRenderTracking은 컴포넌트를 감싸지 않는다.', () => {
+      const disabled = createRenderRegistry({ enabled: false });
+      function Item() {
+        useRenderTracker('Item', disabled);
+        return null;
+      }
+      render(<Item />);
+      disabled.record('Header', { timestamp: 1, duration: 1 });
+
+      expect(disabled.counts()).toEqual({});
+      expect(withRenderTracking(Item, undefined, disabled)).toBe(Item);
+    });
+  });
+
+  describe('createSelectableContext, useContextSelector', () => {
+    interface State {
+      theme: string;
+      user: { name: string } | null;
+      filters: { tags: string[] };
+    }
+
+    const StateContext = createSelectableContext<State>({ theme: 'light', user: null, filters: { tags: [] } });
+
+    it('고른 값이 바뀐 컴포넌트만 리렌더링 된다.', () => {
+      const renderTheme = vi.fn();
+      const renderUser = vi.fn();
+      const Theme = memo(() => {
+        renderTheme();
+        return <span data-testid="theme">{useContextSelector(StateContext, (state) => state.theme)}</span>;
+      });
+      const User = memo(() => {
+        renderUser();
+        const { user } = useContextSelector(StateContext, ({ user }) => ({ user }));
+        return <span>{user?.name}</span>;
+      });
+      const user = { name: '홍길동' };
+      const filters = { tags: [] };
+
+      const { rerender, getByTestId } = render(
+        <StateContext.Provider value={{ theme: 'light', user, filters }}><Theme /><User /></StateContext.Provider>
+      );
+      rerender(<StateContext.Provider value={{ theme: 'dark', user, filters }}><Theme /><User /></StateContext.Provider>);
+
+      expect(getByTestId('theme').textContent).toBe('dark');
+      expect(renderTheme).toHaveBeenCalledTimes(2);
+      expect(renderUser).toHaveBeenCalledTimes(1);
+    });
+
+    it('비교 함수를 넘기면 고른 값을 그 기준으로 비교한다.', () => {
+      const renderFilters = vi.fn();
+      const Filters = memo(() => {
+        renderFilters();
+        const filters = useContextSelector(StateContext, (state) => state.filters, deepEquals);
+        return <span>{filters.tags.join(',')}</span>;
+      });
+
+      const { rerender } = render(
+        <StateContext.Provider value={{ theme: 'light', user: null, filters: { tags: ['a'] } }}><Filters /></StateContext.Provider>
+      );
+      rerender(<StateContext.Provider value={{ theme: 'light', user: null, filters: { tags: ['a'] } }}><Filters /></StateContext.Provider>);
+      expect(renderFilters).toHaveBeenCalledTimes(1);
+
+      rerender(<StateContext.Provider value={{ theme: 'light', user: null, filters: { tags: ['b'] } }}><Filters /></StateContext.Provider>);
+      expect(renderFilters).toHaveBeenCalledTimes(2);
+    });
+
+    it('Provider가 없으면 기본값에서 고른다.', () => {
+      function Theme() {
+        return <span data-testid="theme">{useContextSelector(StateContext, (state) => state.theme)}</span>;
+      }
+
+      const { getByTestId } = render(<Theme />);
+
+      expect(getByTestId('theme').textContent).toBe('light');
+    });
+  });
+
+  describe('createStore 외부 저장소', () => {
+    const createCounterStore = (options?: StoreOptions<{ count: number; label: string }>) =>
+      createStore({ count: 0, label: 'counter' }, (set, get) => ({
+        increment: () => set((state) => ({ count: state.count + 1 })),
+        incrementTwice: () => {
+          set({ count: get().count + 1 });
+          set({ count: get().count + 1 });
+        },
+        rename: (label: string) => set({ label }),
+      }), options);
+
+    it('액션 하나에서 일어난 변경은 구독자에게 한 번만 알린다.', () => {
+      const store = createCounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.actions.incrementTwice();
+
+      expect(store.getState().count).toBe(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ count: 2, label: 'counter' }, { count: 0, label: 'counter' });
+    });
+
+    it('batch로 여러 액션을 모아서 알릴 수 있다.', () => {
+      const store = createCounterStore();
+      const listener = vi.fn();
+      const unsubscribe = store.subscribe(listener);
+
+      store.batch(() => {
+        store.actions.increment();
+        store.actions.rename('clicks');
+      });
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      store.actions.increment();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('useStore는 고른 값이 바뀐 컴포넌트만 리렌더링한다.', () => {
+      const store = createCounterStore();
+      const renderCount = vi.fn();
+      const renderLabel = vi.fn();
+      function Count() {
+        renderCount();
+        return <span data-testid="count">{useStore(store, (state) => state.count)}</span>;
+      }
+      function Label() {
+        renderLabel();
+        const { label } = useStore(store, ({ label }) => ({ label }));
+        return <span>{label}</span>;
+      }
+
+      const { getByTestId } = render(<><Count /><Label /></>);
+      act(() => store.actions.increment());
+
+      expect(getByTestId('count').textContent).toBe('1');
+      expect(renderCount).toHaveBeenCalledTimes(2);
+      expect(renderLabel).toHaveBeenCalledTimes(1);
+    });
+
+    it('미들웨어는 등록한 순서대로 변경을 받고, 액션 이름과 인자를 알 수 있다.', () => {
+      const order: string[] = [];
+      const trace = (name: string): Middleware<{ count: number; label: string }> => () => (next) => (update) => {
+        order.push(`${name}:${update.action}`);
+        next(update);
+      };
+      const recorder = actionRecorder<{ count: number; label: string }>({ limit: 2 });
+      const store = createCounterStore({ middleware: [trace('a'), trace('b'), recorder] });
+
+      store.actions.rename('a');
+      store.actions.increment();
+      store.setState({ label: 'b' });
+
+      expect(order).toEqual(['a:rename', 'b:rename', 'a:increment', 'b:increment', 'a:setState', 'b:setState']);
+      expect(recorder.records.map(({ action, args }) => [action, args])).toEqual([
+        ['increment', []],
+        ['setState', [{ label: 'b' }]],
+      ]);
+      expect(recorder.records[0].prevState).toEqual({ count: 0, label: 'a' });
+      expect(recorder.records[0].nextState).toEqual({ count: 1, label: 'a' });
+    });
+
+    it('logger 미들웨어는 액션과 바뀐 경로를 출력한다.', () => {
+      const log = vi.fn();
+      const store = createCounterStore({ name: 'counter', middleware: [logger({ log })] });
+
+      store.actions.rename('clicks');
+
+      expect(log).toHaveBeenCalledWith('[counter] rename("clicks")\n  label: "counter" → "clicks"');
+    });
+
+    it('persist 미들웨어는 저장된 상태로 시작하고, 변경될 때마다 저장한다.', () => {
+      const storage = new Map<string, string>([['counter', JSON.stringify({ count: 5 })]]);
+      const memoryStorage = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => void storage.set(key, value),
+      };
+      const store = createCounterStore({
+        middleware: [persist({ key: 'counter', storage: memoryStorage, pick: ({ count }) => ({ count }) })],
+      });
+
+      expect(store.getState()).toEqual({ count: 5, label: 'counter' });
+
+      store.actions.increment();
+      expect(storage.get('counter')).toBe('{"count":6}');
+    });
+
+    it('createStoreContext는 Provider마다 저장소를 따로 만든다.', () => {
+      const CounterStore = createStoreContext(() => createCounterStore());
+      function Counter({ testId }: { testId: string }) {
+        const count = CounterStore.useSelector((state) => state.count);
+        const { increment } = CounterStore.useActions();
+        return <button data-testid={testId} onClick={increment}>{count}</button>;
+      }
+
+      const { getByTestId } = render(
+        <>
+          <CounterStore.Provider><Counter testId="first" /></CounterStore.Provider>
+          <CounterStore.Provider><Counter testId="second" /></CounterStore.Provider>
+        </>
+      );
+      fireEvent.click(getByTestId('first'));
+
+      expect(getByTestId('first').textContent).toBe('1');
+      expect(getByTestId('second').textContent).toBe('0');
+    });
+
+    it('persist 미들웨어는 Provider가 언마운트되면 storage 구독을 정리한다.', () => {
+      const memoryStorage = createMemoryStorage();
+      let subscriptions = 0;
+      const storage = {
+        ...memoryStorage,
+        subscribe: (key: string, listener: () => void) => {
+          subscriptions++;
+          const unsubscribe = memoryStorage.subscribe!(key, listener);
+          return () => {
+            subscriptions--;
+            unsubscribe();
+          };
+        },
+      };
+      const CounterStore = createStoreContext(() =>
+        createCounterStore({ middleware: [persist({ key: 'counter', storage, pick: ({ count }) => ({ count }) })] })
+      );
+      function Counter() {
+        return <span data-testid="count">{CounterStore.useSelector((state) => state.count)}</span>;
+      }
+
+      const { getByTestId, unmount } = render(
+        <StrictMode>
+          <CounterStore.Provider><Counter /></CounterStore.Provider>
+        </StrictMode>
+      );
+      expect(subscriptions).toBe(1);
+
+      act(() => memoryStorage.setItem('counter', JSON.stringify({ count: 3 })));
+      expect(getByTestId('count').textContent).toBe('3');
+
+      unmount();
+      expect(subscriptions).toBe(0);
+    });
+
+    it('destroy는 구독자를 지우고 미들웨어의 연결을 정리한다.', () => {
+      const storage = createMemoryStorage();
+      const store = createCounterStore({ middleware: [persist({ key: 'counter', storage, pick: ({ count }) => ({ count }) })] });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.destroy();
+      act(() => storage.setItem('counter', JSON.stringify({ count: 9 })));
+
+      expect(store.getState().count).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('되돌리기/다시 실행 기록', () => {
+    it('pushHistory는 이전 상태를 제한된 개수만큼 보관하고, 같은 하위 값은 참조를 공유한다.', () => {
+      const tags = ['a', 'b'];
+      let history = createHistory({ title: '', tags });
+      history = pushHistory(history, { title: '1', tags: ['a', 'b'] }, { limit: 2 });
+      history = pushHistory(history, { title: '2', tags: ['a', 'b'] }, { limit: 2 });
+      history = pushHistory(history, { title: '3', tags: ['a', 'b'] }, { limit: 2 });
+
+      expect(history.past.map((entry) => entry.value.title)).toEqual(['1', '2']);
+      expect(history.present.value.tags).toBe(tags);
+      expect(pushHistory(history, { title: '3', tags: ['a', 'b'] })).toBe(history);
+    });
+
+    it('shareStructure는 바뀐 부분만 새 참조로 남긴다.', () => {
+      const prev = { user: { name: 'a' }, items: [{ id: 1 }, { id: 2 }] };
+      const next = shareStructure(prev, { user: { name: 'a' }, items: [{ id: 1 }, { id: 3 }] });
+
+      expect(next.user).toBe(prev.user);
+      expect(next.items[0]).toBe(prev.items[0]);
+      expect(next.items[1]).toEqual({ id: 3 });
+      expect(shareStructure(prev, { user: { name: 'a' }, items: [{ id: 1 }, { id: 2 }] })).toBe(prev);
+    });
+
+    it('jumpHistory는 이동할 수 있는 만큼만 앞뒤로 이동한다.', () => {
+      let history = createHistory(0);
+      [1, 2, 3].forEach((value) => {
+        history = pushHistory(history, value);
+      });
+
+      const undone = jumpHistory(history, -2);
+      expect(undone.present.value).toBe(1);
+      expect(undone.future.map((entry) => entry.value)).toEqual([2, 3]);
+
+      expect(jumpHistory(undone, 5).present.value).toBe(3);
+      expect(jumpHistory(undone, -5).present.value).toBe(0);
+      expect(pushHistory(undone, 9).future).toEqual([]);
+    });
+
+    it('useHistoryState는 undo, redo, jump와 canUndo, canRedo를 제공한다.', () => {
+      const { result } = renderHook(() => useHistoryState(0));
+
+      act(() => result.current[1](1));
+      act(() => result.current[1]((prev) => prev + 1));
+      expect(result.current[0]).toBe(2);
+      expect(result.current[2].canUndo).toBe(true);
+      expect(result.current[2].canRedo).toBe(false);
+
+      act(() => result.current[2].undo());
+      expect(result.current[0]).toBe(1);
+      expect(result.current[2].canRedo).toBe(true);
+
+      act(() => result.current[2].jump(-1));
+      expect(result.current[0]).toBe(0);
+      expect(result.current[2].canUndo).toBe(false);
+
+      act(() => result.current[2].redo());
+      expect(result.current[0]).toBe(1);
+    });
+
+    it('groupDelay 안에 연달아 일어난 변경과 transaction 안의 변경은 하나의 기록이 된다.', () => {
+      vi.useFakeTimers();
+      try {
+        const { result } = renderHook(() => useHistoryState('', { groupDelay: 500 }));
+
+        act(() => result.current[1]('a'));
+        vi.advanceTimersByTime(100);
+        act(() => result.current[1]('ab'));
+        vi.advanceTimersByTime(1000);
+        act(() => result.current[1]('abc'));
+
+        act(() => result.current[2].undo());
+        expect(result.current[0]).toBe('ab');
+        act(() => result.current[2].undo());
+        expect(result.current[0]).toBe('');
+
+        act(() => {
+          result.current[2].transaction(() => {
+            result.current[1]('x');
+            vi.advanceTimersByTime(1000);
+            result.current[1]('xy');
+          });
+        });
+        expect(result.current[0]).toBe('xy');
+        act(() => result.current[2].undo());
+        expect(result.current[0]).toBe('');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('timeTravel 미들웨어는 액션 단위로 기록하고, 되돌린 상태도 뒤쪽 미들웨어를 거친다.', () => {
+      const history = timeTravel<{ count: number; log: string[] }>();
+      const saved: string[] = [];
+      const store = createStore({ count: 0, log: [] as string[] }, (set) => ({
+        increment: () => {
+          set((state) => ({ count: state.count + 1 }));
+          set((state) => ({ log: [...state.log, `count: ${state.count}`] }));
+        },
+      }), {
+        middleware: [history, persist({ key: 'counter', storage: { getItem: () => null, setItem: (_, value) => saved.push(value) } })],
+      });
+
+      store.actions.increment();
+      store.actions.increment();
+      expect(store.getState()).toEqual({ count: 2, log: ['count: 1', 'count: 2'] });
+
+      history.undo();
+      expect(store.getState()).toEqual({ count: 1, log: ['count: 1'] });
+      expect(saved[saved.length - 1]).toBe('{"count":1,"log":["count: 1"]}');
+      expect(history.canRedo).toBe(true);
+
+      history.transaction(() => {
+        store.actions.increment();
+        store.actions.increment();
+      });
+      expect(history.canRedo).toBe(false);
+      history.undo();
+      expect(store.getState().count).toBe(1);
+    });
+
+    it('timeTravel scope는 여러 저장소에서 가장 최근에 바뀐 저장소부터 되돌린다.', () => {
+      const scope = createTimeTravelScope();
+      const news = createStore({ likes: 0 }, (set) => ({ like: () => set((state) => ({ likes: state.likes + 1 })) }), {
+        middleware: [timeTravel({ scope })],
+      });
+      const alerts = createStore({ items: ['a'] }, (set) => ({ clear: () => set({ items: [] }) }), {
+        middleware: [timeTravel({ scope })],
+      });
+
+      news.actions.like();
+      alerts.actions.clear();
+
+      scope.undo();
+      expect(alerts.getState().items).toEqual(['a']);
+      expect(news.getState().likes).toBe(1);
+
+      scope.undo();
+      expect(news.getState().likes).toBe(0);
+      expect(scope.canUndo).toBe(false);
+
+      scope.redo();
+      expect(news.getState().likes).toBe(1);
+    });
+
+    it('useUndoShortcuts는 Ctrl+Z, Ctrl+Shift+Z를 연결하고, 처리할 수 없는 입력은 바깥으로 넘긴다.', () => {
+      const form = { undo: vi.fn(), redo: vi.fn(), canRedo: true };
+      let pageCanUndo = true;
+      const page = { undo: vi.fn(), redo: vi.fn(), canUndo: () => pageCanUndo };
+      function Editor({ canUndo }: { canUndo: boolean }) {
+        const ref = useRef<HTMLDivElement | null>(null);
+        useUndoShortcuts({ ...form, canUndo }, ref);
+        useUndoShortcuts(page);
+        return <div ref={ref}><input data-testid="input" /></div>;
+      }
+
+      const { getByTestId, rerender } = render(<Editor canUndo={true} />);
+      fireEvent.keyDown(getByTestId('input'), { key: 'z', ctrlKey: true });
+      fireEvent.keyDown(getByTestId('input'), { key: 'Z', ctrlKey: true, shiftKey: true });
+      fireEvent.keyDown(document.body, { key: 'z', metaKey: true });
+
+      expect(form.undo).toHaveBeenCalledTimes(1);
+      expect(form.redo).toHaveBeenCalledTimes(1);
+      expect(page.undo).toHaveBeenCalledTimes(1);
+
+      // 폼에 되돌릴 기록이 없으면, 입력창의 키는 화면 전체의 기록이 아니라 브라우저의 입력 되돌리기에 맡긴다.
+      rerender(<Editor canUndo={false} />);
+      expect(fireEvent.keyDown(getByTestId('input'), { key: 'z', ctrlKey: true })).toBe(true);
+      expect(form.undo).toHaveBeenCalledTimes(1);
+      expect(page.undo).toHaveBeenCalledTimes(1);
+
+      // 처리할 수 있는지는 키를 누를 때 확인하고, 처리할 수 없으면 기본 동작을 막지 않는다.
+      pageCanUndo = false;
+      expect(fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true })).toBe(true);
+      expect(fireEvent.keyDown(document.body, { key: 'y', ctrlKey: true })).toBe(true);
+      expect(page.undo).toHaveBeenCalledTimes(1);
+      expect(page.redo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('usePersistentState 훅', () => {
+    it('저장된 값으로 시작하고, 값이 바뀌면 저장한다.', () => {
+      const storage = createMemoryStorage({ theme: '"dark"' });
+      const { result } = renderHook(() => usePersistentState('theme', 'light', { storage }));
+
+      expect(result.current[0]).toBe('dark');
+
+      act(() => result.current[1]((prev) => (prev === 'dark' ? 'light' : 'dark')));
+      expect(result.current[0]).toBe('light');
+      expect(storage.getItem('theme')).toBe('"light"');
+    });
+
+    it('저장된 값과 deepEquals로 같다면 다시 저장하지 않는다.', () => {
+      const storage = createMemoryStorage();
+      const setItem = vi.spyOn(storage, 'setItem');
+      const { result } = renderHook(() => usePersistentState('filters', { tags: ['a'] }, { storage }));
+
+      expect(setItem).not.toHaveBeenCalled();
+
+      act(() => result.current[1]({ tags: ['a'] }));
+      expect(setItem).not.toHaveBeenCalled();
+
+      act(() => result.current[1]({ tags: ['b'] }));
+      act(() => result.current[1]({ tags: ['b'] }));
+      expect(setItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('저장된 버전이 낮으면 migrate로 바꾸고 현재 버전으로 다시 저장한다.', () => {
+      interface UserV2 { firstName: string; lastName: string }
+      const storage = createMemoryStorage({ user: JSON.stringify({ version: 1, value: { name: '홍 길동' } }) });
+      const migrate = vi.fn((value: unknown, fromVersion: number): UserV2 => {
+        const [lastName, firstName] = (value as { name: string }).name.split(' ');
+        return fromVersion === 1 ? { firstName, lastName } : { firstName: '', lastName: '' };
+      });
+
+      const { result } = renderHook(() =>
+        usePersistentState<UserV2>('user', { firstName: '', lastName: '' }, { storage, version: 2, migrate })
+      );
+
+      expect(migrate).toHaveBeenCalledWith({ name: '홍 길동' }, 1);
+      expect(result.current[0]).toEqual({ firstName: '길동', lastName: '홍' });
+      expect(JSON.parse(storage.getItem('user')!)).toEqual({ version: 2, value: { firstName: '길동', lastName: '홍' } });
+    });
+
+    it('더 높은 버전이거나 읽을 수 없는 값은 무시하고 초기값을 사용한다.', () => {
+      const storage = createMemoryStorage({
+        newer: JSON.stringify({ version: 3, value: 'future' }),
+        broken: '{',
+      });
+
+      const { result: newer } = renderHook(() => usePersistentState('newer', 'initial', { storage, version: 2 }));
+      const { result: broken } = renderHook(() => usePersistentState('broken', 'initial', { storage }));
+
+      expect(newer.current[0]).toBe('initial');
+      expect(broken.current[0]).toBe('initial');
+    });
+
+    it('같은 저장소를 쓰는 다른 곳에서 값이 바뀌면 따라서 바뀐다.', () => {
+      const storage = createMemoryStorage();
+      const first = renderHook(() => usePersistentState('count', 0, { storage }));
+      const second = renderHook(() => usePersistentState('count', 0, { storage }));
+
+      act(() => first.result.current[1](3));
+      expect(second.result.current[0]).toBe(3);
+
+      act(() => storage.setItem('count', '7'));
+      expect(first.result.current[0]).toBe(7);
+      expect(second.result.current[0]).toBe(7);
+    });
+
+    it('localStorage는 다른 탭의 storage 이벤트로 동기화된다.', () => {
+      localStorage.removeItem('tab-count');
+      const { result, unmount } = renderHook(() =>
+        usePersistentState('tab-count', 0, { storage: getWebStorage('local') })
+      );
+
+      act(() => {
+        localStorage.setItem('tab-count', '5');
+        window.dispatchEvent(new StorageEvent('storage', { key: 'tab-count', storageArea: localStorage }));
+      });
+
+      expect(result.current[0]).toBe(5);
+      unmount();
+      localStorage.removeItem('tab-count');
+    });
+
+    it('storage에 저장하지 못해도 예외를 던지지 않고 메모리의 상태를 사용한다.', () => {
+      const storage = createMemoryStorage();
+      vi.spyOn(storage, 'setItem').mockImplementation(() => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      });
+      const { result } = renderHook(() => usePersistentState('quota', 0, { storage }));
+
+      act(() => result.current[1](1));
+      act(() => result.current[1]((prev) => prev + 1));
+
+      expect(result.current[0]).toBe(2);
+      expect(storage.getItem('quota')).toBeNull();
+
+      const store = createStore({ count: 0 }, (set) => ({ increment: () => set((state) => ({ count: state.count + 1 })) }), {
+        middleware: [persist({ key: 'quota', storage })],
+      });
+      expect(() => store.actions.increment()).not.toThrow();
+      expect(store.getState().count).toBe(1);
+    });
+
+    it('persist 미들웨어도 버전과 마이그레이션을 지원한다.', () => {
+      interface Settings { theme: string; fontSize: number }
+      const storage = createMemoryStorage({ settings: JSON.stringify({ theme: 'dark' }) });
+      const store = createStore<Settings, { setFontSize: (fontSize: number) => void }>({ theme: 'light', fontSize: 14 }, (set) => ({
+        setFontSize: (fontSize: number) => set({ fontSize }),
+      }), {
+        middleware: [persist<Settings>({
+          key: 'settings',
+          storage,
+          version: 1,
+          migrate: (value) => ({ ...(value as Settings), fontSize: 16 }),
+        })],
+      });
+
+      expect(store.getState()).toEqual({ theme: 'dark', fontSize: 16 });
+      expect(JSON.parse(storage.getItem('settings')!)).toEqual({ version: 1, value: { theme: 'dark', fontSize: 16 } });
+
+      // 저장소를 구독하는 동안에는 storage의 변경을 따라간다.
+      const unsubscribe = store.subscribe(() => {});
+      act(() => storage.setItem('settings', JSON.stringify({ version: 1, value: { theme: 'light', fontSize: 20 } })));
+      expect(store.getState()).toEqual({ theme: 'light', fontSize: 20 });
+      unsubscribe();
+    });
+  });
+
+  describe('useAsyncMemo 훅', () => {
+    // 테스트에서 직접 resolve/reject 할 수 있는 요청
+    const createDeferredFactory = () => {
+      const calls: { args: unknown[]; signal: AbortSignal; resolve: (value: unknown) => void; reject: (error: unknown) => void }[] = [];
+      const factory = (...args: unknown[]) => (signal: AbortSignal) =>
+        new Promise<unknown>((resolve, reject) => {
+          calls.push({ args, signal, resolve, reject });
+        });
+      return { calls, factory };
+    };
+
+    it('factory의 결과를 data로 돌려주고, deps가 같다면 다시 실행하지 않는다.', async () => {
+      const factory = vi.fn((signal: AbortSignal) => Promise.resolve(signal.aborted ? 0 : 10));
+      const { result, rerender } = renderHook(({ query }) => useAsyncMemo(factory, [query]), {
+        initialProps: { query: 'a' },
+      });
+
+      expect(result.current).toEqual({ data: undefined, error: undefined, status: 'loading' });
+      await act(async () => {});
+      expect(result.current).toEqual({ data: 10, error: undefined, status: 'success' });
+
+      rerender({ query: 'a' });
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(factory.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    });
+
+    it('deps가 바뀌면 이전 요청을 abort하고, 늦게 도착한 결과는 무시한다.', async () => {
+      const { calls, factory } = createDeferredFactory();
+      const { result, rerender } = renderHook(({ query }) => useAsyncMemo(factory(query), [query]), {
+        initialProps: { query: 'a' },
+      });
+
+      rerender({ query: 'ab' });
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(calls[1].signal.aborted).toBe(false);
+
+      await act(async () => calls[1].resolve('ab 결과'));
+      await act(async () => calls[0].resolve('a 결과'));
+
+      expect(result.current.data).toBe('ab 결과');
+      expect(result.current.status).toBe('success');
+    });
+
+    it('keepPreviousData 옵션을 주면 다시 불러오는 동안 이전 data를 유지한다.', async () => {
+      const { calls, factory } = createDeferredFactory();
+      const { result, rerender } = renderHook(
+        ({ query, keepPreviousData }) => useAsyncMemo(factory(query), [query], { keepPreviousData }),
+        { initialProps: { query: 'a', keepPreviousData: true } }
+      );
+
+      await act(async () => calls[0].resolve('a 결과'));
+      rerender({ query: 'b', keepPreviousData: true });
+      expect(result.current).toEqual({ data: 'a 결과', error: undefined, status: 'loading' });
+
+      rerender({ query: 'c', keepPreviousData: false });
+      expect(result.current).toEqual({ data: undefined, error: undefined, status: 'loading' });
+    });
+
+    it('factory가 실패하면 error 상태가 된다.', async () => {
+      const error = new Error('요청 실패');
+      const { result } = renderHook(() => useAsyncMemo(() => Promise.reject(error), []));
+
+      await act(async () => {});
+      expect(result.current).toEqual({ data: undefined, error, status: 'error' });
+    });
+
+    it('factory가 동기적으로 예외를 던져도 error 상태가 된다.', async () => {
+      const error = new Error('요청 실패');
+      const { result } = renderHook(() => useAsyncMemo((): Promise<number> => { throw error; }, []));
+
+      await act(async () => {});
+      expect(result.current).toEqual({ data: undefined, error, status: 'error' });
+    });
+
+    it('언마운트되면 진행 중인 요청을 abort한다.', () => {
+      const { calls, factory } = createDeferredFactory();
+      const { unmount } = renderHook(() => useAsyncMemo(factory(), []));
+
+      unmount();
+      expect(calls[0].signal.aborted).toBe(true);
+    });
+
+    it('deps 비교 함수를 주입하거나 useDeepAsyncMemo로 깊게 비교할 수 있다.', () => {
+      const shallowFactory = vi.fn(() => new Promise<never>(() => {}));
+      const deepFactory = vi.fn(() => new Promise<never>(() => {}));
+      const { rerender } = renderHook(({ filter }) => {
+        useAsyncMemo(shallowFactory, [filter]);
+        useAsyncMemo(deepFactory, [filter], deepEquals);
+        useDeepAsyncMemo(deepFactory, [filter]);
+      }, { initialProps: { filter: { category: '전자기기' } } });
+
+      rerender({ filter: { category: '전자기기' } });
+      expect(shallowFactory).toHaveBeenCalledTimes(2);
+      expect(deepFactory).toHaveBeenCalledTimes(2);
+
+      rerender({ filter: { category: '의류' } });
+      expect(deepFactory).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('여러 결과를 보관하는 메모이제이션', () => {
+    it('createLruCache는 가장 오래 사용하지 않은 항목부터 지운다.', () => {
+      const cache = createLruCache<string, number>({ size: 2 });
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      expect(cache.get('a')).toEqual({ value: 1 });
+      cache.set('c', 3);
+
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('a')).toEqual({ value: 1 });
+      expect(cache.get('c')).toEqual({ value: 3 });
+      expect(cache.size).toBe(2);
+      expect(cache.stats).toEqual({ hits: 3, misses: 1, evictions: 1 });
+    });
+
+    it('memoize는 인자가 같다면 저장한 결과를 돌려준다.', () => {
+      const sum = vi.fn((items: number[], offset: number) => items.reduce((acc, item) => acc + item, offset));
+      const memoizedSum = memoize(sum, { size: 2 });
+      const first = [1, 2, 3];
+      const second = [4, 5];
+
+      expect(memoizedSum(first, 0)).toBe(6);
+      expect(memoizedSum(second, 0)).toBe(9);
+      expect(memoizedSum(first, 0)).toBe(6);
+      expect(sum).toHaveBeenCalledTimes(2);
+      expect(memoizedSum.stats).toEqual({ hits: 1, misses: 2, evictions: 0 });
+
+      memoizedSum.clear();
+      memoizedSum(first, 0);
+      expect(sum).toHaveBeenCalledTimes(3);
+      expect(memoizedSum.stats).toEqual({ hits: 0, misses: 1, evictions: 0 });
+    });
+
+    it('memoize에 keyFn과 equals를 주입할 수 있다.', () => {
+      const search = vi.fn((query: { text: string; tags: string[] }) => `${query.text}:${query.tags.join(',')}`);
+      const byText = memoize(search, { keyFn: (query) => query.text.toLowerCase() });
+      const byValue = memoize(search, { equals: deepEquals });
+
+      byText({ text: 'Phone', tags: [] });
+      byText({ text: 'phone', tags: ['a'] });
+      expect(byText.stats.hits).toBe(1);
+
+      byValue({ text: 'phone', tags: ['a'] });
+      byValue({ text: 'phone', tags: ['a'] });
+      expect(byValue.stats.hits).toBe(1);
+      expect(search).toHaveBeenCalledTimes(2);
+    });
+
+    it('useMemoCache는 이전 deps로 돌아가면 factory를 다시 실행하지 않는다.', () => {
+      const factory = vi.fn((category: string) => [category]);
+      const cache = createLruCache<DependencyList, string[]>({ size: 2 });
+      const { result, rerender } = renderHook(
+        ({ category }) => useMemoCache(() => factory(category), [category], { cache }),
+        { initialProps: { category: '전자기기' } }
+      );
+      const electronics = result.current;
+
+      rerender({ category: '의류' });
+      rerender({ category: '전자기기' });
+      expect(result.current).toBe(electronics);
+      expect(factory).toHaveBeenCalledTimes(2);
+
+      rerender({ category: '도서' });
+      rerender({ category: '의류' });
+      expect(factory).toHaveBeenCalledTimes(4);
+      expect(cache.stats).toEqual({ hits: 1, misses: 4, evictions: 2 });
+    });
+
+    it('useMemoCache는 deps가 그대로인 렌더링을 캐시 적중으로 세지 않는다.', () => {
+      const cache = createLruCache<DependencyList, string[]>({ size: 2 });
+      const { rerender } = renderHook(
+        ({ category }) => useMemoCache(() => [category], [category], { cache }),
+        { initialProps: { category: '전자기기' } }
+      );
+
+      rerender({ category: '전자기기' });
+      rerender({ category: '전자기기' });
+      expect(cache.stats).toEqual({ hits: 0, misses: 1, evictions: 0 });
+
+      rerender({ category: '의류' });
+      rerender({ category: '전자기기' });
+      rerender({ category: '전자기기' });
+      expect(cache.stats).toEqual({ hits: 1, misses: 2, evictions: 0 });
+    });
+
+    it('useMemoCache에 deps 비교 함수를 주입할 수 있다.', () => {
+      const factory = vi.fn(() => ({}));
+      const { rerender } = renderHook(
+        ({ filter }) => useMemoCache(factory, [filter], { size: 3, equals: deepEquals }),
+        { initialProps: { filter: { category: '전자기기' } } }
+      );
+
+      rerender({ filter: { category: '전자기기' } });
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useEvent 훅', () => {
+    it('항상 같은 함수를 돌려주고, 호출하면 최신 handler를 실행한다.', () => {
+      const calls: number[] = [];
+      const { result, rerender } = renderHook(({ count }) => useEvent(() => calls.push(count)), {
+        initialProps: { count: 1 },
+      });
+      const first = result.current;
+
+      rerender({ count: 2 });
+      expect(result.current).toBe(first);
+
+      result.current();
+      expect(calls).toEqual([2]);
+    });
+
+    it('effect에서 호출해도 같은 렌더링의 handler를 실행한다.', () => {
+      const seen: string[] = [];
+
+      function Child({ onReady }: { onReady: () => void }) {
+        React.useLayoutEffect(() => {
+          onReady();
+        }, [onReady]);
+        return null;
+      }
+
+      function Parent({ label }: { label: string }) {
+        const onReady = useEvent(() => seen.push(label));
+        return <Child key={label} onReady={onReady} />;
+      }
+
+      const { rerender } = render(<Parent label="처음" />);
+      rerender(<Parent label="다음" />);
+
+      expect(seen).toEqual(['처음', '다음']);
+    });
+
+    it('렌더링 중에 호출하면 에러를 던진다.', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      function CallsOnMount() {
+        const onEvent = useEvent(() => 'called');
+        onEvent();
+        return null;
+      }
+
+      function CallsOnUpdate({ call }: { call: boolean }) {
+        const onEvent = useEvent(() => 'called');
+        if (call) {
+          onEvent();
+        }
+        return null;
+      }
+
+      expect(() => render(<CallsOnMount />)).toThrow('useEvent handler cannot be called during render');
+
+      const { rerender } = render(<CallsOnUpdate call={false} />);
+      expect(() => rerender(<CallsOnUpdate call />)).toThrow('useEvent handler cannot be called during render');
+
+      consoleError.mockRestore();
+    });
+
+    it('배포 빌드에서도 렌더링 중에 호출하면 에러를 던지고, 커밋된 뒤에는 호출할 수 있다.', () => {
+      vi.stubEnv('DEV', false);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      function CallsOnUpdate({ call }: { call: boolean }) {
+        const onEvent = useEvent(() => 'called');
+        if (call) {
+          onEvent();
+        }
+        return null;
+      }
+
+      const { rerender } = render(<CallsOnUpdate call={false} />);
+      expect(() => rerender(<CallsOnUpdate call />)).toThrow('useEvent handler cannot be called during render');
+
+      const { result } = renderHook(() => useEvent(() => 'called'));
+      expect(result.current()).toBe('called');
+
+      consoleError.mockRestore();
+      vi.unstubAllEnvs();
+    });
+
+    it('StrictMode에서 버려진 렌더링의 handler는 호출되지 않는다.', () => {
+      const handlers: (() => string)[] = [];
+      let renderCount = 0;
+
+      const { result } = renderHook(() => {
+        const id = `render-${++renderCount}`;
+        const handler = () => id;
+        handlers.push(handler);
+        return useEvent(handler);
+      }, { wrapper: StrictMode });
+
+      expect(handlers).toHaveLength(2);
+      expect(result.current()).toBe(`render-${renderCount}`);
+    });
+  });
+
+  describe('개발 모드 deps 검사', () => {
+    let warnings: DepsWarning[];
+    let disable: () => void;
+
+    beforeEach(() => {
+      warnings = [];
+      disable = enableDepsLinting({ sink: { record: (warning) => warnings.push(warning) } });
+    });
+
+    afterEach(() => {
+      disable();
+    });
+
+    it('렌더링 사이에 deps 길이가 바뀌면 경고한다.', () => {
+      function FilteredList({ deps }: { deps: unknown[] }) {
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        useMemo(() => deps.length, deps);
+        return null;
+      }
+
+      const { rerender } = render(<FilteredList deps={[1]} />);
+      rerender(<FilteredList deps={[1, 2]} />);
+      rerender(<FilteredList deps={[1, 2, 3]} />);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ kind: 'length-changed', source: 'useMemo', component: 'FilteredList' });
+      expect(warnings[0].message).toContain('from 1 to 2');
+      expect(warnings[0].callSite).toContain('basic.test.tsx');
+      expect(formatDepsWarning(warnings[0])).toMatch(/^\[deps\] useMemo in FilteredList \(.*basic\.test\.tsx.*\): deps length changed/);
+    });
+
+    it('렌더링할 때마다 새로 만든 객체나 함수가 deps에 있으면 경고한다.', () => {
+      function PriceSummary({ count }: { count: number }) {
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        const options = { currency: 'KRW' };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        const format = (price: number) => `${price}원`;
+        useMemo(() => format(count), [format, count]);
+        useCallback(() => options, [options]);
+        return null;
+      }
+
+      const { rerender } = render(<PriceSummary count={0} />);
+      rerender(<PriceSummary count={0} />);
+      expect(warnings).toHaveLength(0);
+
+      rerender(<PriceSummary count={0} />);
+      rerender(<PriceSummary count={0} />);
+
+      expect(warnings.map(({ kind, source, message }) => ({ kind, source, message }))).toEqual([
+        { kind: 'unstable-dep', source: 'useMemo', message: expect.stringContaining('deps[0] is a new function') },
+        { kind: 'unstable-dep', source: 'useCallback', message: expect.stringContaining('deps[0] is a new object') },
+      ]);
+    });
+
+    it('비교 함수가 같다고 판단한 새 참조는 경고하지 않는다.', () => {
+      const { rerender } = renderHook(({ filter }) => useDeepMemo(() => filter, [filter]), {
+        initialProps: { filter: { category: '전자기기' } },
+      });
+
+      for (let i = 0; i < 5; i++) {
+        rerender({ filter: { category: '전자기기' } });
+      }
+      expect(warnings).toHaveLength(0);
+    });
+
+    it('proxy 옵션을 켜면 factory가 deps에 없는 값을 읽을 때 경고한다.', () => {
+      disable();
+      disable = enableDepsLinting({ proxy: true, sink: { record: (warning) => warnings.push(warning) } });
+
+      function ItemSummary(rawProps: { items: { price: number }[]; discount: number; label: string }) {
+        const props = trackReads(rawProps, 'props');
+        const total = useMemo(
+          () => props.items.reduce((sum, item) => sum + item.price, 0) * (1 - props.discount),
+          // eslint-disable-next-line react-hooks/exhaustive-deps
+          [props.items]
+        );
+        const label = useMemo(() => `${props.label}: ${total}`, [props.label, total]);
+        return <span>{label}</span>;
+      }
+
+      const items = [{ price: 100 }, { price: 200 }];
+      const { container } = render(<ItemSummary items={items} discount={0.5} label="합계" />);
+
+      expect(container.textContent).toBe('합계: 150');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ kind: 'missing-dep', component: 'ItemSummary' });
+      expect(warnings[0].message).toBe('factory reads props.discount but it is not listed in deps');
+    });
+
+    it('proxy 옵션이 꺼져 있으면 trackReads는 값을 그대로 돌려준다.', () => {
+      const props = { items: [] };
+      expect(trackReads(props)).toBe(props);
+    });
+
+    it('검사를 끄면 경고하지 않는다.', () => {
+      disable();
+      expect(isDepsLintingEnabled()).toBe(false);
+
+      const { rerender } = renderHook(
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        ({ deps }) => useMemo(() => deps, deps),
+        { initialProps: { deps: [1] } }
+      );
+      rerender({ deps: [1, 2] });
+      expect(warnings).toHaveLength(0);
+    });
+  });
+
+  describe('가상 스크롤 목록', () => {
+    it('높이가 같은 항목과 다른 항목의 위치를 계산한다.', () => {
+      const fixed = createVirtualLayout(100, 20);
+      expect(fixed.totalSize).toBe(2000);
+      expect(fixed.getOffset(10)).toBe(200);
+      expect(fixed.findIndex(219)).toBe(10);
+      expect(fixed.findIndex(5000)).toBe(99);
+
+      const variable = createVirtualLayout(4, (index) => (index + 1) * 10);
+      expect(variable.totalSize).toBe(100);
+      expect(variable.getOffset(3)).toBe(60);
+      expect(variable.getSize(2)).toBe(30);
+      expect(variable.findIndex(0)).toBe(0);
+      expect(variable.findIndex(29)).toBe(1);
+      expect(variable.findIndex(30)).toBe(2);
+    });
+
+    it('보이는 범위에 overscan만큼 앞뒤 항목을 더한다.', () => {
+      const layout = createVirtualLayout(100, 20);
+
+      expect(getVisibleRange(layout, 0, 100)).toEqual({ start: 0, end: 5 });
+      expect(getVisibleRange(layout, 410, 100, 2)).toEqual({ start: 18, end: 28 });
+      expect(getVisibleRange(layout, 1950, 100, 2)).toEqual({ start: 95, end: 100 });
+      expect(getVisibleRange(createVirtualLayout(0, 20), 0, 100)).toEqual({ start: 0, end: 0 });
+    });
+
+    it('scrollToIndex 위치는 정렬 방식에 따라 계산한다.', () => {
+      const layout = createVirtualLayout(100, 20);
+
+      expect(getScrollOffsetForIndex(layout, 50, 0, 100, 'start')).toBe(1000);
+      expect(getScrollOffsetForIndex(layout, 50, 0, 100, 'end')).toBe(920);
+      expect(getScrollOffsetForIndex(layout, 50, 0, 100, 'center')).toBe(960);
+      expect(getScrollOffsetForIndex(layout, 2, 0, 100, 'auto')).toBe(0);
+      expect(getScrollOffsetForIndex(layout, 50, 0, 100, 'auto')).toBe(920);
+      expect(getScrollOffsetForIndex(layout, 99, 0, 100, 'start')).toBe(1900);
+    });
+
+    it('항목 수와 관계없이 보이는 항목만 렌더링하고, 스크롤하면 다른 항목을 보여준다.', () => {
+      const renderItem = vi.fn((index: number) => <span>항목 {index}</span>);
+      const { container, getByText } = render(
+        <VirtualList count={10000} itemSize={20} height={100} overscan={1} renderItem={renderItem} />
+      );
+      const scroller = container.firstChild as HTMLDivElement;
+
+      expect(container.querySelectorAll('[role="listitem"]')).toHaveLength(6);
+      expect((container.querySelector('[role="list"]') as HTMLElement).style.height).toBe('200000px');
+
+      scroller.scrollTop = 20 * 9995;
+      fireEvent.scroll(scroller);
+
+      expect(getByText('항목 9999')).toBeTruthy();
+      expect(container.querySelectorAll('[role="listitem"]')).toHaveLength(6);
+      const last = container.querySelector('[aria-posinset="10000"]') as HTMLElement;
+      expect(last.style.top).toBe('199980px');
+    });
+
+    it('보이는 범위가 그대로라면 스크롤해도 다시 렌더링하지 않는다.', () => {
+      const renderItem = vi.fn((index: number) => index);
+      const { container } = render(<VirtualList count={100} itemSize={20} height={90} overscan={0} renderItem={renderItem} />);
+      const scroller = container.firstChild as HTMLDivElement;
+      renderItem.mockClear();
+
+      scroller.scrollTop = 5;
+      fireEvent.scroll(scroller);
+      expect(renderItem).not.toHaveBeenCalled();
+
+      scroller.scrollTop = 25;
+      fireEvent.scroll(scroller);
+      expect(renderItem).toHaveBeenCalled();
+    });
+
+    it('ref의 scrollToIndex로 원하는 항목까지 스크롤한다.', () => {
+      const ref = React.createRef<VirtualListHandle>();
+      const { container, getByText } = render(
+        <VirtualList
+          ref={ref}
+          count={1000}
+          itemSize={(index) => (index % 2 === 0 ? 20 : 40)}
+          height={100}
+          overscan={0}
+          renderItem={(index) => `항목 ${index}`}
+        />
+      );
+      const scroller = container.firstChild as HTMLDivElement;
+
+      act(() => ref.current!.scrollToIndex(500, 'start'));
+
+      expect(scroller.scrollTop).toBe(15000);
+      expect(getByText('항목 500')).toBeTruthy();
+    });
+
+    it('header는 항목과 함께 렌더링되고 위에 고정된다.', () => {
+      const { getByText } = render(
+        <VirtualList count={10} itemSize={20} height={100} header={<p>검색 결과 10개</p>} renderItem={(index) => index} />
+      );
+
+      expect((getByText('검색 결과 10개').parentElement as HTMLElement).style.position).toBe('sticky');
+    });
+  });
+
+  describe('URL query 저장소', () => {
+    beforeEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('query 매개변수를 읽고 쓰며, 빈 문자열은 매개변수를 지운다.', () => {
+      const storage = createQueryStorage();
+
+      storage.setItem('sort', 'price-desc');
+      storage.setItem('q', '상품 1');
+      expect(window.location.search).toBe('?sort=price-desc&q=%EC%83%81%ED%92%88+1');
+      expect(storage.getItem('q')).toBe('상품 1');
+
+      storage.setItem('q', '');
+      storage.removeItem('sort');
+      expect(window.location.search).toBe('');
+      expect(storage.getItem('sort')).toBeNull();
+    });
+
+    it('history 옵션에 따라 방문 기록을 쌓거나 바꾼다.', () => {
+      const length = window.history.length;
+
+      createQueryStorage().setItem('page', '2');
+      expect(window.history.length).toBe(length);
+
+      createQueryStorage({ history: 'push' }).setItem('page', '3');
+      expect(window.history.length).toBe(length + 1);
+    });
+
+    it('usePersistentState와 함께 쓰면 URL과 상태가 서로 따라 바뀐다.', () => {
+      window.history.replaceState(null, '', '/?page=3');
+      const options = { storage: getQueryStorage(), serialize: String, deserialize: Number };
+      const { result } = renderHook(() => usePersistentState('page', 1, options));
+
+      expect(result.current[0]).toBe(3);
+
+      act(() => result.current[1](4));
+      expect(window.location.search).toBe('?page=4');
+
+      act(() => {
+        window.history.replaceState(null, '', '/?page=7');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+      expect(result.current[0]).toBe(7);
+    });
+
+    it('다른 key의 변경이나 직접 저장한 값의 알림으로는 다시 렌더링하지 않는다.', () => {
+      const storage = getQueryStorage();
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return usePersistentState('q', '', { storage, serialize: String, deserialize: String });
+      });
+
+      act(() => result.current[1]('상품'));
+      const rendersAfterChange = renders;
+
+      act(() => storage.setItem('sort', 'name-asc'));
+      expect(renders).toBe(rendersAfterChange);
+    });
+  });
+
+  describe('debounce, throttle과 검색 지연 훅', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('debounce는 호출이 멈춘 뒤 마지막 인자로 한 번 실행한다.', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100);
+
+      debounced('a');
+      vi.advanceTimersByTime(50);
+      debounced('ab');
+      vi.advanceTimersByTime(99);
+      expect(fn).not.toHaveBeenCalled();
+      expect(debounced.pending()).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith('ab');
+      expect(debounced.pending()).toBe(false);
+    });
+
+    it('debounce의 leading, trailing과 cancel, flush를 지원한다.', () => {
+      const fn = vi.fn();
+      const leadingOnly = debounce(fn, 100, { leading: true, trailing: false });
+
+      leadingOnly(1);
+      leadingOnly(2);
+      vi.advanceTimersByTime(100);
+      leadingOnly(3);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+
+      fn.mockClear();
+      const trailing = debounce(fn, 100);
+      trailing(1);
+      trailing.cancel();
+      vi.advanceTimersByTime(100);
+      expect(fn).not.toHaveBeenCalled();
+
+      trailing(2);
+      trailing.flush();
+      expect(fn).toHaveBeenCalledWith(2);
+    });
+
+    it('throttle은 delay마다 최대 한 번 실행하고, 마지막 호출을 끝에 실행한다.', () => {
+      const fn = vi.fn();
+      const throttled = throttle(fn, 100);
+
+      throttled(1);
+      throttled(2);
+      throttled(3);
+      expect(fn.mock.calls).toEqual([[1]]);
+
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+
+      throttled(4);
+      vi.advanceTimersByTime(99);
+      expect(fn).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(1);
+      expect(fn.mock.calls).toEqual([[1], [3], [4]]);
+
+      const trailingOnly = vi.fn();
+      const delayed = throttle(trailingOnly, 100, { leading: false });
+      delayed('a');
+      expect(trailingOnly).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(100);
+      expect(trailingOnly).toHaveBeenCalledWith('a');
+    });
+
+    it('useDebouncedValue는 값이 delay 동안 바뀌지 않으면 반영한다.', () => {
+      const { result, rerender } = renderHook(({ value }) => useDebouncedValue(value, 200), {
+        initialProps: { value: '' },
+      });
+
+      rerender({ value: '상' });
+      rerender({ value: '상품' });
+      expect(result.current).toBe('');
+
+      act(() => vi.advanceTimersByTime(200));
+      expect(result.current).toBe('상품');
+    });
+
+    it('useDebouncedValue의 leading 옵션은 첫 변경을 바로 반영하고, 언마운트하면 타이머를 정리한다.', () => {
+      const { result, rerender, unmount } = renderHook(({ value }) => useDebouncedValue(value, 200, { leading: true }), {
+        initialProps: { value: 1 },
+      });
+
+      rerender({ value: 2 });
+      expect(result.current).toBe(2);
+
+      rerender({ value: 3 });
+      expect(result.current).toBe(2);
+
+      unmount();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('useThrottledCallback은 같은 함수를 유지하면서 최신 callback을 실행한다.', () => {
+      const calls: string[] = [];
+      const { result, rerender, unmount } = renderHook(
+        ({ label }) => useThrottledCallback((value: number) => calls.push(`${label}:${value}`), 100),
+        { initialProps: { label: 'a' } }
+      );
+      const throttled = result.current;
+
+      act(() => {
+        result.current(1);
+        result.current(2);
+      });
+      rerender({ label: 'b' });
+      expect(result.current).toBe(throttled);
+
+      act(() => vi.advanceTimersByTime(100));
+      expect(calls).toEqual(['a:1', 'b:2']);
+
+      // 마지막 실행 후 delay가 지나면 다음 호출은 바로 실행되고, 언마운트하면 기다리던 호출은 취소된다.
+      vi.advanceTimersByTime(100);
+      act(() => result.current(3));
+      act(() => result.current(4));
+      unmount();
+      vi.advanceTimersByTime(200);
+      expect(calls).toEqual(['a:1', 'b:2', 'b:3']);
+    });
+
+    it('useSearchValue는 입력이 결과에 반영되기 전까지 isStale을 true로 돌려준다.', () => {
+      const { result, rerender } = renderHook(({ value }) => useSearchValue(value, { mode: 'debounce', delay: 100 }), {
+        initialProps: { value: '' },
+      });
+
+      rerender({ value: '상품' });
+      expect(result.current).toEqual({ value: '', isStale: true });
+
+      act(() => vi.advanceTimersByTime(100));
+      expect(result.current).toEqual({ value: '상품', isStale: false });
+
+      const immediate = renderHook(({ value }) => useSearchValue(value, { mode: 'immediate' }), {
+        initialProps: { value: 'a' },
+      });
+      immediate.rerender({ value: 'b' });
+      expect(immediate.result.current).toEqual({ value: 'b', isStale: false });
+
+      const deferred = renderHook(({ value }) => useSearchValue(value), { initialProps: { value: 'a' } });
+      act(() => deferred.rerender({ value: 'b' }));
+      expect(deferred.result.current).toEqual({ value: 'b', isStale: false });
+    });
+  });
+
+  describe('검색 색인', () => {
+    const products = [
+      { name: '무선 키보드', category: '전자기기' },
+      { name: '키보드 커버', category: '전자기기' },
+      { name: '상품 안내서', category: '도서' },
+      { name: 'Keyboard Stand', category: '전자기기' },
+    ];
+    const fields = { name: 2, category: 1 };
+
+    it('getChoseong과 matchesChoseongPrefix는 한글 음절의 초성을 비교한다.', () => {
+      expect(getChoseong('상품 12')).toBe('ㅅㅍ 12');
+      expect(getChoseong('abc')).toBe('abc');
+      expect(matchesChoseongPrefix('상품', 'ㅅㅍ')).toBe(true);
+      expect(matchesChoseongPrefix('상품', '상ㅍ')).toBe(true);
+      expect(matchesChoseongPrefix('상품', 'ㅅ')).toBe(true);
+      expect(matchesChoseongPrefix('상품', 'ㅍ')).toBe(false);
+      expect(matchesChoseongPrefix('상', 'ㅅㅍ')).toBe(false);
+    });
+
+    it('정확히 같은 단어, 앞부분, 초성, 오타로 찾고 점수 순서로 돌려준다.', () => {
+      const index = createSearchIndex(products, { fields });
+      const search = (query: string) => index.search(query).map(match => match.index);
+
+      // 정확히 같은 단어가 앞부분만 같은 단어보다 앞에 온다.
+      expect(search('키보드')).toEqual([0, 1]);
+      expect(search('키')).toEqual([0, 1]);
+      // 초성이 단어 전체와 맞는 '커버'가 앞부분만 맞는 '키보드'보다 앞에 온다.
+      expect(search('ㅋㅂ')).toEqual([1, 0]);
+      expect(search('ㅋㅂㄷ')).toEqual([0, 1]);
+      expect(search('keyboard')).toEqual([3]);
+      expect(search('keybaord')).toEqual([3]);
+      // 이름에서 맞는 상품이 카테고리에서만 맞는 상품보다 앞에 온다.
+      expect(search('ㅈㅈ')).toEqual([0, 1, 3]);
+      expect(search('상품')).toEqual([2]);
+      // 모든 검색어와 맞는 문서만 돌려준다.
+      expect(search('키보드 커버')).toEqual([1]);
+      expect(search('키보드 도서')).toEqual([]);
+      // 짧은 검색어와 숫자에는 오타를 허용하지 않는다.
+      expect(search('커브')).toEqual([]);
+      expect(search('')).toEqual([0, 1, 2, 3]);
+      expect(index.search('키', { limit: 1 })).toHaveLength(1);
+      expect(createSearchIndex(products, { fields, fuzzy: false }).search('keybaord')).toEqual([]);
+    });
+
+    it('필드별로 맞는 위치를 합쳐서 돌려주고, splitHighlights로 나눌 수 있다.', () => {
+      const index = createSearchIndex(products, { fields });
+
+      const [match] = index.search('무선 ㅋㅂ 전자');
+      expect(match.index).toBe(0);
+      expect(match.ranges).toEqual({ name: [[0, 2], [3, 5]], category: [[0, 2]] });
+      // 정확히 같은 단어와 오타는 단어 전체를 강조한다.
+      expect(index.search('keybaord')[0].ranges).toEqual({ name: [[0, 8]] });
+
+      expect(splitHighlights('무선 키보드', match.ranges.name)).toEqual([
+        { text: '무선', highlighted: true },
+        { text: ' ', highlighted: false },
+        { text: '키보', highlighted: true },
+        { text: '드', highlighted: false },
+      ]);
+      expect(splitHighlights('무선 키보드')).toEqual([{ text: '무선 키보드', highlighted: false }]);
+    });
+
+    it('Worker가 없으면 메인 스레드에서 검색한다.', async () => {
+      const engine = createSearchEngine(products, { fields });
+
+      expect(engine.mode).toBe('sync');
+      const hits = engine.searchSync('ㅋㅂㄷ');
+      expect(hits.map(hit => hit.item)).toEqual([products[0], products[1]]);
+      expect(hits[0].ranges.name).toEqual([[3, 6]]);
+      await expect(engine.search('keyboard')).resolves.toEqual([
+        { item: products[3], score: expect.any(Number), ranges: { name: [[0, 8]] } },
+      ]);
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(engine.search('키보드', { signal: controller.signal })).rejects.toThrow('Search was aborted');
+    });
+
+    // 메시지를 받으면 다음 microtask에 같은 스레드에서 검색해서 응답하는 Worker
+    class FakeWorker extends EventTarget {
+      requests: SearchWorkerRequest[] = [];
+      terminated = false;
+      private index: ReturnType<typeof createSearchIndex> | null = null;
+
+      postMessage(request: SearchWorkerRequest) {
+        this.requests.push(request);
+        if (request.type === 'build') {
+          this.index = createSearchIndex(request.documents, request.options);
+          return;
+        }
+        const response: SearchWorkerResponse = {
+          type: 'result',
+          id: request.id,
+          matches: this.index!.search(request.query, { limit: request.limit }),
+        };
+        this.respond(response);
+      }
+
+      respond(response: SearchWorkerResponse) {
+        queueMicrotask(() => this.dispatchEvent(new MessageEvent('message', { data: response })));
+      }
+
+      terminate() {
+        this.terminated = true;
+      }
+    }
+
+    it('Worker에 색인을 한 번 보내고, 검색할 때마다 결과를 받는다.', async () => {
+      const workers: FakeWorker[] = [];
+      const engine = createSearchEngine(products, {
+        fields,
+        worker: () => {
+          const worker = new FakeWorker();
+          workers.push(worker);
+          return worker as unknown as Worker;
+        },
+      });
+
+      expect(engine.mode).toBe('worker');
+      expect((await engine.search('키보드')).map(hit => hit.item)).toEqual([products[0], products[1]]);
+      expect((await engine.search('상품')).map(hit => hit.item)).toEqual([products[2]]);
+      // 빈 검색어는 Worker를 거치지 않는다.
+      expect(await engine.search('')).toHaveLength(4);
+      expect(workers).toHaveLength(1);
+      expect(workers[0].requests.map(request => request.type)).toEqual(['build', 'search', 'search']);
+
+      const controller = new AbortController();
+      const aborted = engine.search('키보드', { signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toThrow('Search was aborted');
+
+      // dispose 후에 검색하면 Worker를 다시 만든다.
+      const waiting = engine.search('키보드');
+      engine.dispose();
+      await expect(waiting).rejects.toThrow('Search was aborted');
+      expect(workers[0].terminated).toBe(true);
+      expect(await engine.search('키보드')).toHaveLength(2);
+      expect(workers).toHaveLength(2);
+    });
+
+    it('useSearch는 Worker의 결과를 기다리는 동안 이전 결과를 유지한다.', async () => {
+      const engine = createSearchEngine(products, { fields, worker: () => new FakeWorker() as unknown as Worker });
+      const { result, rerender } = renderHook(({ query }) => useSearch(engine, query), {
+        initialProps: { query: '' },
+      });
+
+      expect(result.current.isSearching).toBe(false);
+      expect(result.current.hits).toHaveLength(4);
+
+      rerender({ query: '키보드' });
+      expect(result.current.isSearching).toBe(true);
+
+      await act(async () => {});
+      expect(result.current.isSearching).toBe(false);
+      expect(result.current.hits.map(hit => hit.item)).toEqual([products[0], products[1]]);
+
+      rerender({ query: '상품' });
+      expect(result.current).toEqual({ hits: expect.any(Array), isSearching: true });
+      expect(result.current.hits).toHaveLength(2);
+      await act(async () => {});
+      expect(result.current.hits.map(hit => hit.item)).toEqual([products[2]]);
+    });
+
+    it('useSearch는 Worker의 첫 결과를 기다리는 동안에도 마지막으로 보여준 목록을 비우지 않는다.', async () => {
+      // flush를 호출할 때까지 응답하지 않는 Worker
+      class DeferredWorker extends FakeWorker {
+        held: SearchWorkerResponse[] = [];
+
+        respond(response: SearchWorkerResponse) {
+          this.held.push(response);
+        }
+
+        flush() {
+          for (const response of this.held.splice(0)) {
+            this.dispatchEvent(new MessageEvent('message', { data: response }));
+          }
+        }
+      }
+
+      const worker = new DeferredWorker();
+      const engine = createSearchEngine(products, { fields, worker: () => worker as unknown as Worker });
+      const { result, rerender } = renderHook(({ query }) => useSearch(engine, query), {
+        initialProps: { query: '' },
+      });
+      expect(result.current.hits).toHaveLength(4);
+
+      rerender({ query: '키보드' });
+      expect(result.current.isSearching).toBe(true);
+      expect(result.current.hits).toHaveLength(4);
+
+      await act(async () => worker.flush());
+      expect(result.current).toEqual({ hits: expect.any(Array), isSearching: false });
+      expect(result.current.hits.map(hit => hit.item)).toEqual([products[0], products[1]]);
+
+      // 빈 검색어로 돌아갔다가 다시 검색하면, 그 전 검색 결과가 아니라 지금 보이는 전체 목록을 유지한다.
+      rerender({ query: '' });
+      rerender({ query: '상품' });
+      expect(result.current.isSearching).toBe(true);
+      expect(result.current.hits).toHaveLength(4);
+
+      await act(async () => worker.flush());
+      expect(result.current.hits.map(hit => hit.item)).toEqual([products[2]]);
+    });
+
+    it('useSearch는 Worker가 없으면 렌더링 중에 검색하고, 최근 결과를 다시 사용한다.', () => {
+      const engine = createSearchEngine(products, { fields });
+      const searchSync = vi.spyOn(engine, 'searchSync');
+      const { result, rerender } = renderHook(({ query }) => useSearch(engine, query), {
+        initialProps: { query: '키보드' },
+      });
+
+      expect(result.current.isSearching).toBe(false);
+      expect(result.current.hits).toHaveLength(2);
+
+      rerender({ query: '상품' });
+      const first = result.current.hits;
+      rerender({ query: '키보드' });
+      rerender({ query: '상품' });
+      expect(result.current.hits).toBe(first);
+      expect(searchSync).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('시드 고정 데이터 생성', () => {
+    it('createRandom은 seed가 같으면 같은 순서의 수를 만든다.', () => {
+      const take = (seed: number | string) => {
+        const random = createRandom(seed);
+        return Array.from({ length: 5 }, () => random.next());
+      };
+
+      expect(take(42)).toEqual(take(42));
+      expect(take('상품')).toEqual(take('상품'));
+      expect(take(42)).not.toEqual(take(43));
+      expect(take(42).every(value => value >= 0 && value < 1)).toBe(true);
+
+      const random = createRandom(7);
+      const values = Array.from({ length: 1000 }, () => random.range({ min: 1000, max: 5000, step: 1000 }));
+      expect(new Set(values)).toEqual(new Set([1000, 2000, 3000, 4000, 5000]));
+      expect(() => random.range({ min: 10, max: 1 })).toThrow(RangeError);
+      expect(() => random.weighted({ a: 0 })).toThrow(RangeError);
+    });
+
+    it('createRandom의 weighted와 skew는 분포를 조절한다.', () => {
+      const random = createRandom(1);
+      const counts = { a: 0, b: 0, c: 0 };
+      for (let i = 0; i < 4000; i++) {
+        counts[random.weighted({ a: 3, b: 1, c: 0 })]++;
+      }
+      expect(counts.c).toBe(0);
+      expect(counts.a / counts.b).toBeGreaterThan(2.5);
+      expect(counts.a / counts.b).toBeLessThan(3.5);
+
+      const average = (skew: number) =>
+        Array.from({ length: 2000 }, () => random.range({ min: 0, max: 100, skew })).reduce((a, b) => a + b) / 2000;
+      expect(average(3)).toBeLessThan(35);
+      expect(average(1)).toBeGreaterThan(40);
+    });
+
+    it('상품은 seed, 카테고리 비중, 가격 범위에 따라 항상 같은 목록을 만든다.', () => {
+      expect(createItemFixtures(100)).toEqual(createItemFixtures(100));
+      expect(createItemFixtures(100, { seed: 2 })).not.toEqual(createItemFixtures(100));
+      expect(createItemFixtures(3)[2]).toEqual({ id: 2, name: '상품 2', category: expect.any(String), price: expect.any(Number) });
+
+      const items = createItemFixtures(500, {
+        seed: 'weights',
+        categories: { 전자기기: 1, 도서: 0 },
+        price: category => (category === '전자기기' ? { min: 500000, max: 900000, step: 10000 } : { min: 0, max: 0 }),
+      });
+      expect(items.every(item => item.category === '전자기기')).toBe(true);
+      expect(items.every(item => item.price >= 500000 && item.price <= 900000 && item.price % 10000 === 0)).toBe(true);
+
+      expect(generateItems(10)).toEqual(createItemFixtures(10));
+      expect(createItemFixtures(2, { locale: 'en', startId: 10 }).map(item => item.name)).toEqual(['Product 10', 'Product 11']);
+    });
+
+    it('뉴스, 사용자, 알림도 seed와 locale로 만든다.', () => {
+      const news = createNewsFixtures(50, { categories: ['정치', '경제'], likes: { min: 10, max: 20 } });
+      expect(news).toEqual(createNewsFixtures(50, { categories: ['정치', '경제'], likes: { min: 10, max: 20 } }));
+      expect(news[0]).toMatchObject({ id: 1, title: '뉴스 제목 1' });
+      expect(news.every(item => ['정치', '경제'].includes(item.category) && item.likes >= 10 && item.likes <= 20)).toBe(true);
+
+      const users = createUserFixtures(20);
+      expect(users).toEqual(createUserFixtures(20));
+      expect(users[0].email).toBe('user1@example.com');
+      expect(users.every(user => /^[가-힣]{3}$/.test(user.name))).toBe(true);
+      expect(createUserFixtures(1, { locale: 'en', seed: 3 })[0]).toEqual({
+        id: 1,
+        name: expect.stringMatching(/^[A-Z][a-z]+ [A-Z][a-z]+$/),
+        email: expect.stringMatching(/^[a-z]+\.[a-z]+1@example\.com$/),
+      });
+
+      const notifications = createNotificationFixtures(30, { types: { info: 0, success: 1, warning: 0, error: 1 } });
+      expect(notifications.every(notification => ['success', 'error'].includes(notification.type))).toBe(true);
+      expect(createNotificationFixtures(1, { locale: 'en', types: { info: 1, success: 0, warning: 0, error: 0 } })[0]).toEqual({
+        id: 1,
+        message: expect.any(String),
+        type: 'info',
+      });
+
+      // 여러 생성기가 난수 생성기 하나를 이어서 쓰면, 생성 순서까지 같을 때 같은 데이터를 만든다.
+      const generate = () => {
+        const random = createRandom('shared');
+        return [createUserFixtures(3, { random }), createNotificationFixtures(3, { random })];
+      };
+      expect(generate()).toEqual(generate());
+    });
+  });
 })
@@ -1,6 +1,12 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { enableDepsLinting } from './@lib'
+
+// 개발 모드에서는 메모 훅의 deps 실수를 콘솔에 경고한다.
+if (import.meta.env.DEV) {
+  enableDepsLinting()
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,14 +1,10 @@
+import { ItemFixtureOptions, createItemFixtures } from './@lib';
+
 export function renderLog(message: string) {
   console.log(message);
 }
 
 // 대규모 데이터 생성 함수
-export const generateItems = (count: number) => {
-  const categories = ['전자기기', '의류', '도서', '식품'];
-  return Array.from({ length: count }, (_, index) => ({
-    id: index,
-    name: `상품 ${index}`,
-    category: categories[Math.floor(Math.random() * categories.length)],
-    price: Math.floor(Math.random() * 100000) + 1000
-  }));
-};
+// seed를 고정해서 실행할 때마다 같은 상품 목록을 만든다. 렌더링 횟수나 성능을 비교할 때 데이터 차이가 섞이지 않는다.
+export const generateItems = (count: number, options?: ItemFixtureOptions<string>) =>
+  createItemFixtures(count, options);
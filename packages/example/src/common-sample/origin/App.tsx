@@ -1,4 +1,5 @@
 import { PropsWithChildren, useState } from 'react';
+import { createNewsFixtures } from 'assignment/lib';
 
 type NewsCategory = '정치' | '경제' | '사회' | '문화';
 
@@ -12,15 +13,9 @@ interface NewsItem {
 
 const NEWS_CATEGORIES = ['정치', '경제', '사회', '문화'] as const;
 
-const generateNewsData = (count: number): NewsItem[] => {
-  return Array.from({ length: count }, (_, index) => ({
-    id: index + 1,
-    title: `뉴스 제목 ${index + 1}`,
-    category: [...NEWS_CATEGORIES].sort(() => Math.random() - 0.5)[0],
-    likes: Math.floor(Math.random() * 100),
-    content: `이것은 뉴스 ${index + 1}의 내용입니다. 실제 내용은 더 길 것입니다.`
-  }));
-};
+// 실행할 때마다 같은 뉴스 목록을 쓰도록 seed로 만든다.
+const generateNewsData = (count: number): NewsItem[] =>
+  createNewsFixtures<NewsCategory>(count, { categories: NEWS_CATEGORIES });
 
 const newsItems = generateNewsData(50);
 
@@ -1,4 +1,5 @@
 import { memo, PropsWithChildren, useCallback, useMemo, useState } from 'react';
+import { createNewsFixtures, useMemoCache } from 'assignment/lib';
 
 type NewsCategory = '정치' | '경제' | '사회' | '문화';
 
@@ -12,15 +13,9 @@ interface NewsItem {
 
 const NEWS_CATEGORIES = ['정치', '경제', '사회', '문화'] as const;
 
-const generateNewsData = (count: number): NewsItem[] => {
-  return Array.from({ length: count }, (_, index) => ({
-    id: index + 1,
-    title: `뉴스 제목 ${index + 1}`,
-    category: [...NEWS_CATEGORIES].sort(() => Math.random() - 0.5)[0],
-    likes: Math.floor(Math.random() * 100),
-    content: `이것은 뉴스 ${index + 1}의 내용입니다. 실제 내용은 더 길 것입니다.`
-  }));
-};
+// origin과 같은 seed로 만들어서, 두 화면의 렌더링을 같은 데이터로 비교할 수 있다.
+const generateNewsData = (count: number): NewsItem[] =>
+  createNewsFixtures<NewsCategory>(count, { categories: NEWS_CATEGORIES });
 
 const newsItems = generateNewsData(50);
 
@@ -103,9 +98,11 @@ const App = () => {
   const [news, setNews] = useState(newsItems);
   const [category, setCategory] = useState<NewsCategory | null>(null);
 
-  const filteredNews = useMemo(() =>
+  // 카테고리를 오갈 때마다 다시 거르지 않도록 카테고리별 결과를 보관한다.
+  const filteredNews = useMemoCache(() =>
       category ? news.filter(item => item.category === category) : news,
-    [news, category]
+    [news, category],
+    { size: NEWS_CATEGORIES.length + 1 }
   );
 
   const totalLikes = useMemo(() =>
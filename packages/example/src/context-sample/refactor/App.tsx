@@ -1,4 +1,15 @@
-import React, { createContext, useContext, useState, useCallback, useMemo, PropsWithChildren } from 'react';
+import React, { useRef, useState } from 'react';
+import {
+  Middleware,
+  createStore,
+  createStoreContext,
+  createTimeTravelScope,
+  logger,
+  persist,
+  timeTravel,
+  useHistoryState,
+  useUndoShortcuts,
+} from 'assignment/lib';
 
 // 타입 정의
 type Theme = 'light' | 'dark';
@@ -22,133 +33,69 @@ interface Notification {
   message: string;
 }
 
-// Context 정의
-interface ThemeContextType {
-  theme: Theme;
-  toggleTheme: () => void;
-}
-
-interface UserContextType {
-  user: User | null;
-  login: (name: string, email: string) => void;
-  logout: () => void;
-}
-
-interface NewsContextType {
+// 스토어 정의
+// 각 Provider는 마운트될 때 스토어를 하나 만들고, 컴포넌트는 필요한 값만 골라서 구독한다.
+interface NewsState {
   news: NewsItem[];
-  addNews: (news: Omit<NewsItem, 'id' | 'likes'>) => void;
-  likeNews: (id: number) => void;
-  filteredNews: NewsItem[];
-  setCategory: (category: NewsCategory | null) => void;
+  category: NewsCategory | null;
 }
 
-interface NotificationContextType {
-  notifications: Notification[];
-  addNotification: (message: string) => void;
-  removeNotification: (id: number) => void;
-}
-
-const ThemeContext = createContext<ThemeContextType | null>(null);
-const UserContext = createContext<UserContextType | null>(null);
-const NewsContext = createContext<NewsContextType | null>(null);
-const NotificationContext = createContext<NotificationContextType | null>(null);
-
-// Provider 컴포넌트
-const ThemeProvider: React.FC<PropsWithChildren> = ({ children }) => {
-  const [theme, setTheme] = useState<Theme>('light');
-  const toggleTheme = useCallback(() => {
-    setTheme(prev => prev === 'light' ? 'dark' : 'light');
-  }, []);
-  const value = useMemo(() => ({ theme, toggleTheme }), [theme, toggleTheme]);
-  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
-};
-
-const UserProvider: React.FC<PropsWithChildren> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const login = useCallback((name: string, email: string) => {
-    setUser({ name, email });
-  }, []);
-  const logout = useCallback(() => {
-    setUser(null);
-  }, []);
-  const value = useMemo(() => ({ user, login, logout }), [user, login, logout]);
-  return <UserContext.Provider value={value}>{children}</UserContext.Provider>;
-};
-
-const NewsProvider: React.FC<PropsWithChildren> = ({ children }) => {
-  const [news, setNews] = useState<NewsItem[]>([]);
-  const [category, setCategory] = useState<NewsCategory | null>(null);
-
-  const addNews = useCallback((newNews: Omit<NewsItem, 'id' | 'likes'>) => {
-    setNews(prev => [...prev, { ...newNews, id: Date.now(), likes: 0 }]);
-  }, []);
-
-  const likeNews = useCallback((id: number) => {
-    setNews(prev => prev.map(item =>
-      item.id === id ? { ...item, likes: item.likes + 1 } : item
-    ));
-  }, []);
-
-  const filteredNews = useMemo(() =>
-      category ? news.filter(item => item.category === category) : news,
-    [news, category]
-  );
-
-  const value = useMemo(() => ({
-    news, addNews, likeNews, filteredNews, setCategory
-  }), [news, addNews, likeNews, filteredNews, setCategory]);
-
-  return <NewsContext.Provider value={value}>{children}</NewsContext.Provider>;
-};
-
-const NotificationProvider: React.FC<PropsWithChildren> = ({ children }) => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-
-  const addNotification = useCallback((message: string) => {
-    setNotifications(prev => [...prev, { id: Date.now(), message }]);
-  }, []);
-
-  const removeNotification = useCallback((id: number) => {
-    setNotifications(prev => prev.filter(notif => notif.id !== id));
-  }, []);
-
-  const value = useMemo(() => ({
-    notifications, addNotification, removeNotification
-  }), [notifications, addNotification, removeNotification]);
-
-  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
-};
-
-// 커스텀 훅
-const useTheme = () => {
-  const context = useContext(ThemeContext);
-  if (!context) throw new Error('useTheme must be used within a ThemeProvider');
-  return context;
-};
-
-const useUser = () => {
-  const context = useContext(UserContext);
-  if (!context) throw new Error('useUser must be used within a UserProvider');
-  return context;
-};
-
-const useNews = () => {
-  const context = useContext(NewsContext);
-  if (!context) throw new Error('useNews must be used within a NewsProvider');
-  return context;
-};
-
-const useNotification = () => {
-  const context = useContext(NotificationContext);
-  if (!context) throw new Error('useNotification must be used within a NotificationProvider');
-  return context;
-};
+// 개발 모드에서는 액션마다 바뀐 상태를 콘솔에 출력한다.
+const devMiddleware = <S,>(): Middleware<S>[] => (import.meta.env.DEV ? [logger<S>()] : []);
+
+// 뉴스와 알림 변경을 한 순서로 기록해서, Ctrl+Z로 가장 최근 변경부터 되돌린다.
+const historyScope = createTimeTravelScope();
+
+// 테마와 로그인한 사용자는 새로고침해도 유지한다.
+const ThemeStore = createStoreContext(() =>
+  createStore({ theme: 'light' as Theme }, (set) => ({
+    toggleTheme: () => set(state => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
+  }), { name: 'theme', middleware: [persist({ key: 'news-theme', version: 1 }), ...devMiddleware<{ theme: Theme }>()] })
+);
+
+const UserStore = createStoreContext(() =>
+  createStore({ user: null as User | null }, (set) => ({
+    login: (name: string, email: string) => set({ user: { name, email } }),
+    logout: () => set({ user: null }),
+  }), { name: 'user', middleware: [persist({ key: 'news-user', version: 1 }), ...devMiddleware<{ user: User | null }>()] })
+);
+
+const NewsStore = createStoreContext(() =>
+  createStore<NewsState, {
+    addNews: (news: Omit<NewsItem, 'id' | 'likes'>) => void;
+    likeNews: (id: number) => void;
+    setCategory: (category: NewsCategory | null) => void;
+  }>({ news: [], category: null }, (set) => ({
+    addNews: (newNews) => set(state => ({ news: [...state.news, { ...newNews, id: Date.now(), likes: 0 }] })),
+    likeNews: (id) => set(state => ({
+      news: state.news.map(item => item.id === id ? { ...item, likes: item.likes + 1 } : item)
+    })),
+    setCategory: (category) => set({ category }),
+  }), { name: 'news', middleware: [timeTravel({ scope: historyScope }), ...devMiddleware<NewsState>()] })
+);
+
+const NotificationStore = createStoreContext(() =>
+  createStore({ notifications: [] as Notification[] }, (set) => ({
+    addNotification: (message: string) => set(state => ({
+      notifications: [...state.notifications, { id: Date.now(), message }]
+    })),
+    removeNotification: (id: number) => set(state => ({
+      notifications: state.notifications.filter(notif => notif.id !== id)
+    })),
+  }), { name: 'notification', middleware: [timeTravel({ scope: historyScope }), ...devMiddleware<{ notifications: Notification[] }>()] })
+);
+
+// 필터링된 뉴스는 새 배열이지만, 항목이 같다면 shallowEquals로 같은 값으로 본다.
+const selectFilteredNews = ({ news, category }: NewsState) =>
+  category ? news.filter(item => item.category === category) : news;
 
 // 컴포넌트
 const Header = () => {
-  const { theme, toggleTheme } = useTheme();
-  const { user, logout } = useUser();
-  const { notifications } = useNotification();
+  const theme = ThemeStore.useSelector(state => state.theme);
+  const { toggleTheme } = ThemeStore.useActions();
+  const user = UserStore.useSelector(state => state.user);
+  const { logout } = UserStore.useActions();
+  const notificationCount = NotificationStore.useSelector(state => state.notifications.length);
 
   return (
     <header className={`p-4 ${theme === 'light' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-200'}`}>
@@ -162,9 +109,9 @@ const Header = () => {
           {user && <button onClick={logout} className="px-3 py-1 rounded bg-red-500 text-white">로그아웃</button>}
           <div className="relative">
             <span className="cursor-pointer">🔔</span>
-            {notifications.length > 0 && (
+            {notificationCount > 0 && (
               <span className="absolute top-0 right-0 -mt-1 -mr-1 px-2 py-1 text-xs bg-red-500 text-white rounded-full">
-                {notifications.length}
+                {notificationCount}
               </span>
             )}
           </div>
@@ -175,7 +122,7 @@ const Header = () => {
 };
 
 const LoginForm = () => {
-  const { login } = useUser();
+  const { login } = UserStore.useActions();
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
 
@@ -206,8 +153,8 @@ const LoginForm = () => {
 };
 
 const NewsItem = React.memo(({ item }: { item: NewsItem }) => {
-  const { likeNews } = useNews();
-  const { theme } = useTheme();
+  const { likeNews } = NewsStore.useActions();
+  const theme = ThemeStore.useSelector(state => state.theme);
 
   return (
     <div className={`p-4 mb-4 rounded shadow ${theme === 'light' ? 'bg-white' : 'bg-gray-700 text-gray-200'}`}>
@@ -227,7 +174,7 @@ const NewsItem = React.memo(({ item }: { item: NewsItem }) => {
 });
 
 const NewsList = () => {
-  const { filteredNews } = useNews();
+  const filteredNews = NewsStore.useSelector(selectFilteredNews);
 
   return (
     <div>
@@ -239,7 +186,7 @@ const NewsList = () => {
 };
 
 const CategoryFilter = () => {
-  const { setCategory } = useNews();
+  const { setCategory } = NewsStore.useActions();
   const categories: (NewsCategory | 'all')[] = ['all', '정치', '경제', '사회', '문화'];
 
   return (
@@ -258,22 +205,31 @@ const CategoryFilter = () => {
 };
 
 const AddNewsForm = () => {
-  const { addNews } = useNews();
-  const { addNotification } = useNotification();
-  const [title, setTitle] = useState('');
-  const [content, setContent] = useState('');
-  const [category, setCategory] = useState<NewsCategory>('정치');
+  const { addNews } = NewsStore.useActions();
+  const { addNotification } = NotificationStore.useActions();
+  // 작성 중인 내용은 입력 단위로 되돌릴 수 있다. (폼 안에서 Ctrl+Z / Ctrl+Shift+Z)
+  const [draft, setDraft, draftHistory] = useHistoryState({
+    title: '',
+    content: '',
+    category: '정치' as NewsCategory
+  }, { groupDelay: 500 });
+  const { title, content, category } = draft;
+  const formRef = useRef<HTMLFormElement>(null);
+  useUndoShortcuts(draftHistory, formRef);
+
+  const setTitle = (title: string) => setDraft(prev => ({ ...prev, title }));
+  const setContent = (content: string) => setDraft(prev => ({ ...prev, content }));
+  const setCategory = (category: NewsCategory) => setDraft(prev => ({ ...prev, category }));
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     addNews({ title, content, category });
     addNotification(`새 뉴스가 추가되었습니다: ${title}`);
-    setTitle('');
-    setContent('');
+    setDraft(prev => ({ ...prev, title: '', content: '' }));
   };
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4 mb-8">
+    <form ref={formRef} onSubmit={handleSubmit} className="space-y-4 mb-8">
       <input
         type="text"
         value={title}
@@ -303,7 +259,8 @@ const AddNewsForm = () => {
 };
 
 const NotificationList = () => {
-  const { notifications, removeNotification } = useNotification();
+  const notifications = NotificationStore.useSelector(state => state.notifications);
+  const { removeNotification } = NotificationStore.useActions();
 
   return (
     <div className="fixed top-16 right-4 w-64 space-y-2">
@@ -323,11 +280,13 @@ const NotificationList = () => {
 };
 
 const App = () => {
+  useUndoShortcuts(historyScope);
+
   return (
-    <ThemeProvider>
-      <UserProvider>
-        <NewsProvider>
-          <NotificationProvider>
+    <ThemeStore.Provider>
+      <UserStore.Provider>
+        <NewsStore.Provider>
+          <NotificationStore.Provider>
             <div className="min-h-screen bg-gray-100">
               <Header />
               <div className="container mx-auto py-8">
@@ -344,10 +303,10 @@ const App = () => {
               </div>
               <NotificationList />
             </div>
-          </NotificationProvider>
-        </NewsProvider>
-      </UserProvider>
-    </ThemeProvider>
+          </NotificationStore.Provider>
+        </NewsStore.Provider>
+      </UserStore.Provider>
+    </ThemeStore.Provider>
   );
 };
 